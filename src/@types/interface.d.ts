@@ -1,5 +1,22 @@
 import { AppSettings } from '../types/appSettings';
-import { StatusMatrix } from '../types/gitStatus';
+import { StatusChange, StatusMatrix } from '../types/gitStatus';
+import { PullResult } from '../types/gitPull';
+import { PushResult } from '../types/gitPush';
+import { TrackingStatus } from '../types/gitTracking';
+import { BranchList, CheckoutResult } from '../types/gitBranch';
+import { CommitChange, LogOptions, LogPage } from '../types/gitLog';
+import { LastCommitInfo } from '../types/gitCommit';
+import { BlameResult } from '../types/gitBlame';
+import { DiffLineSelection, DiffTargetType, FileDiff } from '../types/gitDiff';
+import { FileConflict, MergeState } from '../types/gitConflict';
+import { CloneProgress, CloneResult } from '../types/gitClone';
+import { SyncResult } from '../types/gitSync';
+import { SecretFinding } from '../types/gitSecret';
+import { StashEntry } from '../types/gitStash';
+import { SnapshotEntry, TagEntry } from '../types/gitTag';
+import { RemoteCredentials, RemoteEntry } from '../types/gitRemote';
+import { GitHubRepository, PullRequestInfo, PullRequestStatus } from '../types/github';
+import { TrashItem } from '../types/trash';
 
 interface FileInfo {
   name: string;
@@ -12,17 +29,13 @@ interface FileStats {
   isLargeFile: boolean;
 }
 
-interface GitAuthor {
-  name: string;
-  email: string;
-}
-
 declare global {
   interface Window {
     api: {
       app: {
         getSettings: () => Promise<AppSettings>;
         setSettings: (settings: AppSettings) => Promise<void>;
+        setToken: (token: string | null) => Promise<void>;
       };
       dialog: {
         selectDirectory: () => Promise<string | null>;
@@ -40,6 +53,12 @@ declare global {
         createDirectory: (dirPath: string) => Promise<boolean>;
         renameDirectory: (dirPath: string, newName: string) => Promise<boolean>;
         removeDirectory: (dirPath: string) => Promise<boolean>;
+        move: (sourcePath: string, targetDirPath: string) => Promise<string>;
+        moveToTrash: (filePath: string) => Promise<TrashItem>;
+        listTrash: () => Promise<TrashItem[]>;
+        restoreFromTrash: (id: string) => Promise<string>;
+        purgeTrash: (id?: string) => Promise<boolean>;
+        onFilesChanged: (callback: (filePaths: string[]) => void) => () => void;
       };
       export: {
         exportPdf: (filePath: string) => Promise<string>;
@@ -48,10 +67,65 @@ declare global {
       git: {
         add: (filepath: string) => Promise<void>;
         unstage: (filepath: string) => Promise<void>;
-        commit: (message: string, author: GitAuthor) => Promise<string>;
-        push: () => Promise<boolean>;
-        pull: () => Promise<boolean>;
+        commit: (message: string, allowedFindings?: string[]) => Promise<string>;
+        lastCommit: () => Promise<LastCommitInfo>;
+        amendCommit: (message?: string, allowedFindings?: string[]) => Promise<string>;
+        undoCommit: () => Promise<void>;
+        revertCommit: (oid: string) => Promise<string[]>;
+        generateCommitMessage: () => Promise<string>;
+        scanSecrets: () => Promise<SecretFinding[]>;
+        allowSecret: (fingerprint: string) => Promise<void>;
+        push: (remote?: string) => Promise<PushResult>;
+        pull: () => Promise<PullResult>;
+        fetch: () => Promise<TrackingStatus>;
+        trackingStatus: () => Promise<TrackingStatus>;
         status: () => Promise<StatusMatrix>;
+        listBranches: () => Promise<BranchList>;
+        createBranch: (name: string, checkout: boolean) => Promise<void>;
+        checkoutBranch: (name: string, force: boolean) => Promise<CheckoutResult>;
+        renameBranch: (oldName: string, newName: string) => Promise<void>;
+        deleteBranch: (name: string) => Promise<void>;
+        log: (options?: LogOptions) => Promise<LogPage>;
+        readFileAtCommit: (oid: string, filePath: string) => Promise<string>;
+        commitChanges: (oid: string) => Promise<CommitChange[]>;
+        blame: (filePath: string) => Promise<BlameResult>;
+        restoreFiles: (filepaths: string[], ref?: string) => Promise<string[]>;
+        diff: (filepath: string, target: DiffTargetType) => Promise<FileDiff>;
+        stageLines: (filepath: string, selection: DiffLineSelection) => Promise<void>;
+        unstageLines: (filepath: string, selection: DiffLineSelection) => Promise<void>;
+        listTags: () => Promise<TagEntry[]>;
+        createTag: (name: string, oid?: string, message?: string) => Promise<TagEntry>;
+        pushTag: (name: string, remote?: string) => Promise<void>;
+        deleteTag: (name: string, deleteRemote: boolean, remote?: string) => Promise<void>;
+        listSnapshot: (tagName: string, dirPath?: string) => Promise<SnapshotEntry[]>;
+        readSnapshotFile: (tagName: string, filepath: string) => Promise<string>;
+        exportSnapshot: (tagName: string, destination: string) => Promise<string>;
+        stashList: () => Promise<StashEntry[]>;
+        stashSave: (message?: string) => Promise<string[]>;
+        stashApply: (index: number) => Promise<string[]>;
+        stashPop: (index: number) => Promise<string[]>;
+        stashDrop: (index: number) => Promise<void>;
+        mergeState: () => Promise<MergeState>;
+        getConflict: (filepath: string) => Promise<FileConflict>;
+        resolveConflict: (filepath: string, content: string) => Promise<void>;
+        abortMerge: () => Promise<void>;
+        listRemotes: () => Promise<RemoteEntry[]>;
+        addRemote: (remote: string, url: string, credentials?: RemoteCredentials) => Promise<void>;
+        updateRemote: (
+          remote: string,
+          url: string,
+          credentials?: RemoteCredentials | null
+        ) => Promise<void>;
+        removeRemote: (remote: string) => Promise<void>;
+        sync: () => Promise<SyncResult>;
+        clone: (dirPath: string) => Promise<CloneResult>;
+        onStatusChanged: (callback: (change: StatusChange) => void) => () => void;
+        onCloneProgress: (callback: (progress: CloneProgress) => void) => () => void;
+      };
+      github: {
+        createRepository: (name: string, description?: string) => Promise<GitHubRepository>;
+        createPullRequest: (title: string, body?: string) => Promise<PullRequestInfo>;
+        pullRequestStatus: () => Promise<PullRequestStatus>;
       };
     };
   }
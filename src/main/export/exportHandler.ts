@@ -2,6 +2,7 @@ import { ipcMain } from 'electron';
 import path from 'node:path';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
+import { resolveNotePath } from '../fileSystem/pathResolver';
 
 const execPromise = promisify(exec);
 
@@ -60,11 +61,11 @@ async function convertDocument(filePath: string, format: ExportFormat): Promise<
 export function setupExportHandlers() {
   // PDF変換
   ipcMain.handle('export:export-pdf', async (event, filePath: string) => {
-    return convertDocument(filePath, 'pdf');
+    return convertDocument(await resolveNotePath(filePath), 'pdf');
   });
 
   // EPUB変換
   ipcMain.handle('export:export-epub', async (event, filePath: string) => {
-    return convertDocument(filePath, 'epub');
+    return convertDocument(await resolveNotePath(filePath), 'epub');
   });
 }
@@ -1,19 +1,105 @@
-import { app, ipcMain } from 'electron';
+import { BrowserWindow, ipcMain } from 'electron';
 import path from 'node:path';
 import fs from 'node:fs/promises';
 import { createReadStream } from 'node:fs';
 import { createInterface } from 'node:readline';
+import { notifyFileChange, onFileChange, watchDirectory } from './fileWatcher';
+import { getRepoPath, moveIndexEntries, toRepoRelativePath } from '../git/gitUtils';
+import {
+  FileAccessError,
+  findAvailablePath,
+  resolveNotePath,
+  TRASH_DIRECTORY,
+} from './pathResolver';
+import { FileAccessErrorCode } from '../../types/fileAccess';
+import { listTrash, moveToTrash, purgeTrash, restoreFromTrash } from './trash';
+
+// ファイルツリーに表示しないディレクトリ（Gitとゴミ箱の管理用）
+const HIDDEN_DIRECTORIES = ['.git', TRASH_DIRECTORY];
+
+// ルートディレクトリを取得する関数（設定されていない場合はエラー）
+const requireRootPath = () => {
+  const rootPath = getRepoPath();
+  if (!rootPath) throw new Error('ルートディレクトリが設定されていません');
+  return rootPath;
+};
+
+const exists = async (targetPath: string) => {
+  try {
+    await fs.lstat(targetPath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// 名前の変更先のパスを取得する関数（同じフォルダの中での名前のみ指定できる）
+const resolveRenamedPath = async (sourcePath: string, newName: unknown) => {
+  if (
+    typeof newName !== 'string' ||
+    newName === '' ||
+    newName === '.' ||
+    newName === '..' ||
+    /[\\/]/.test(newName)
+  ) {
+    throw new FileAccessError(
+      FileAccessErrorCode.INVALID_PATH,
+      `不正な名前です: ${String(newName)}`
+    );
+  }
+
+  const newPath = await resolveNotePath(path.join(path.dirname(sourcePath), newName));
+  // 大文字と小文字だけを変える場合は、区別しないファイルシステムでも同じファイルとして存在するため除く
+  if (newPath.toLowerCase() !== sourcePath.toLowerCase() && (await exists(newPath))) {
+    throw new Error(`同じ名前のファイルまたはフォルダが既にあります: ${newName}`);
+  }
+  return newPath;
+};
+
+// 移動や名前の変更をインデックスにも反映し、コミットしたときに名前の変更として扱われるようにする
+const moveInIndex = async (fromPath: string, toPath: string) => {
+  const rootPath = getRepoPath();
+  if (!rootPath || !(await exists(path.join(rootPath, '.git')))) return;
+
+  try {
+    await moveIndexEntries(
+      rootPath,
+      toRepoRelativePath(rootPath, fromPath),
+      toRepoRelativePath(rootPath, toPath)
+    );
+  } catch (error) {
+    // ファイルの移動は完了しているため、インデックスの更新に失敗してもエラーにしない
+    console.error('Error updating index:', error);
+  }
+};
+
+// 変更されたファイルをすべてのウィンドウに通知する関数（外部での変更もファイルツリーとエディターに反映する）
+const broadcastFilesChanged = (filePaths: string[]) => {
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('fs:files-changed', filePaths);
+  });
+};
 
 export function setupFileSystemHandlers() {
-  // ディレクトリ内のファイル一覧を取得
+  onFileChange(broadcastFilesChanged);
+
+  // 起動時からルートディレクトリを監視する
+  const rootPath = getRepoPath();
+  if (rootPath) {
+    watchDirectory(rootPath);
+  }
+
+  // ディレクトリ内のファイル一覧を取得（指定しない場合はルートディレクトリ）
+  // パスはすべてルートディレクトリの配下であることを確認してから扱う
   ipcMain.handle('fs:list-files', async (event, dirPath) => {
     try {
-      const basePath = dirPath || app.getPath('userData');
+      const basePath = await resolveNotePath(dirPath ?? getRepoPath(), { allowRoot: true });
       await fs.mkdir(basePath, { recursive: true });
 
       const files = await fs.readdir(basePath, { withFileTypes: true });
       return files
         .filter((file) => file.isDirectory() || file.name.endsWith('.md'))
+        .filter((file) => !(file.isDirectory() && HIDDEN_DIRECTORIES.includes(file.name)))
         .map((file) => ({
           name: file.name,
           isDirectory: file.isDirectory(),
@@ -26,8 +112,9 @@ export function setupFileSystemHandlers() {
   });
 
   // ファイルの読み込み
-  ipcMain.handle('fs:read-file', async (event, filePath) => {
+  ipcMain.handle('fs:read-file', async (event, requestedFilePath) => {
     try {
+      const filePath = await resolveNotePath(requestedFilePath);
       const content = await fs.readFile(filePath, 'utf-8');
       return content;
     } catch (error) {
@@ -37,8 +124,9 @@ export function setupFileSystemHandlers() {
   });
 
   // ファイルの情報を取得
-  ipcMain.handle('fs:get-file-info', async (event, filePath) => {
+  ipcMain.handle('fs:get-file-info', async (event, requestedFilePath) => {
     try {
+      const filePath = await resolveNotePath(requestedFilePath);
       const stats = await fs.stat(filePath);
       return {
         size: stats.size,
@@ -51,8 +139,9 @@ export function setupFileSystemHandlers() {
   });
 
   // 大きなファイルを部分的に読み込む
-  ipcMain.handle('fs:read-file-chunk', async (event, filePath, start, end) => {
+  ipcMain.handle('fs:read-file-chunk', async (event, requestedFilePath, start, end) => {
     try {
+      const filePath = await resolveNotePath(requestedFilePath);
       // ファイルを開いて指定された範囲を読み込む
       const fileHandle = await fs.open(filePath, 'r');
       const buffer = Buffer.alloc(end - start);
@@ -66,7 +155,8 @@ export function setupFileSystemHandlers() {
   });
 
   // ファイルを行単位で読み込む
-  ipcMain.handle('fs:read-file-lines', async (event, filePath, startLine, lineCount) => {
+  ipcMain.handle('fs:read-file-lines', async (event, requestedFilePath, startLine, lineCount) => {
+    const filePath = await resolveNotePath(requestedFilePath);
     return new Promise((resolve, reject) => {
       try {
         const lines: string[] = [];
@@ -103,11 +193,13 @@ export function setupFileSystemHandlers() {
   });
 
   // ファイルの書き込み
-  ipcMain.handle('fs:write-file', async (event, filePath, content) => {
+  ipcMain.handle('fs:write-file', async (event, requestedFilePath, content) => {
     try {
+      const filePath = await resolveNotePath(requestedFilePath);
       const dirPath = path.dirname(filePath);
       await fs.mkdir(dirPath, { recursive: true });
       await fs.writeFile(filePath, content, 'utf-8');
+      notifyFileChange([filePath]);
       return true;
     } catch (error) {
       console.error('Error writing file:', error);
@@ -116,11 +208,13 @@ export function setupFileSystemHandlers() {
   });
 
   // ファイルの追加
-  ipcMain.handle('fs:add-file', async (event, filePath, content) => {
+  ipcMain.handle('fs:add-file', async (event, requestedFilePath, content) => {
     try {
+      const filePath = await resolveNotePath(requestedFilePath);
       const dirPath = path.dirname(filePath);
       await fs.mkdir(dirPath, { recursive: true });
       await fs.writeFile(filePath, content, 'utf-8');
+      notifyFileChange([filePath]);
       return true;
     } catch (error) {
       console.error('Error adding file:', error);
@@ -129,9 +223,13 @@ export function setupFileSystemHandlers() {
   });
 
   // ファイルのリネーム
-  ipcMain.handle('fs:rename-file', async (event, filePath, newName) => {
+  ipcMain.handle('fs:rename-file', async (event, requestedFilePath, newName) => {
     try {
-      await fs.rename(filePath, path.join(path.dirname(filePath), newName));
+      const filePath = await resolveNotePath(requestedFilePath);
+      const newPath = await resolveRenamedPath(filePath, newName);
+      await fs.rename(filePath, newPath);
+      await moveInIndex(filePath, newPath);
+      notifyFileChange([filePath, newPath]);
       return true;
     } catch (error) {
       console.error('Error renaming file:', error);
@@ -140,9 +238,11 @@ export function setupFileSystemHandlers() {
   });
 
   // ファイルの削除
-  ipcMain.handle('fs:remove-file', async (event, filePath) => {
+  ipcMain.handle('fs:remove-file', async (event, requestedFilePath) => {
     try {
+      const filePath = await resolveNotePath(requestedFilePath);
       await fs.unlink(filePath);
+      notifyFileChange([filePath]);
       return true;
     } catch (error) {
       console.error('Error removing file:', error);
@@ -151,8 +251,9 @@ export function setupFileSystemHandlers() {
   });
 
   // ディレクトリの作成
-  ipcMain.handle('fs:create-directory', async (event, dirPath) => {
+  ipcMain.handle('fs:create-directory', async (event, requestedDirPath) => {
     try {
+      const dirPath = await resolveNotePath(requestedDirPath);
       await fs.mkdir(dirPath, { recursive: true });
       return true;
     } catch (error) {
@@ -162,9 +263,14 @@ export function setupFileSystemHandlers() {
   });
 
   // ディレクトリのリネーム
-  ipcMain.handle('fs:rename-directory', async (event, dirPath, newName) => {
+  // 名前は同じフォルダの中での新しい名前として扱う（作業ディレクトリからの相対パスにはしない）
+  ipcMain.handle('fs:rename-directory', async (event, requestedDirPath, newName) => {
     try {
-      await fs.rename(dirPath, newName);
+      const dirPath = await resolveNotePath(requestedDirPath);
+      const newPath = await resolveRenamedPath(dirPath, newName);
+      await fs.rename(dirPath, newPath);
+      await moveInIndex(dirPath, newPath);
+      notifyFileChange([dirPath, newPath]);
       return true;
     } catch (error) {
       console.error('Error renaming directory:', error);
@@ -172,14 +278,91 @@ export function setupFileSystemHandlers() {
     }
   });
 
+  // ファイルやフォルダを別のフォルダに移動（同じ名前がある場合は番号を付ける）
+  // 移動先のパスを返す
+  ipcMain.handle('fs:move', async (event, requestedSourcePath, requestedTargetDirPath) => {
+    try {
+      const sourcePath = await resolveNotePath(requestedSourcePath);
+      const targetDirPath = await resolveNotePath(requestedTargetDirPath, { allowRoot: true });
+      if (path.dirname(sourcePath) === targetDirPath) return sourcePath;
+
+      const relativeTarget = path.relative(sourcePath, targetDirPath);
+      if (relativeTarget.split(path.sep)[0] !== '..' && !path.isAbsolute(relativeTarget)) {
+        throw new Error('フォルダをそのフォルダ自身の中には移動できません');
+      }
+      if (!(await fs.stat(targetDirPath)).isDirectory()) {
+        throw new Error(`移動先がフォルダではありません: ${targetDirPath}`);
+      }
+
+      const destinationPath = await findAvailablePath(
+        path.join(targetDirPath, path.basename(sourcePath))
+      );
+      await fs.rename(sourcePath, destinationPath);
+      await moveInIndex(sourcePath, destinationPath);
+      notifyFileChange([sourcePath, destinationPath]);
+      return destinationPath;
+    } catch (error) {
+      console.error('Error moving file:', error);
+      throw error;
+    }
+  });
+
   // ディレクトリの削除
-  ipcMain.handle('fs:remove-directory', async (event, dirPath) => {
+  ipcMain.handle('fs:remove-directory', async (event, requestedDirPath) => {
     try {
+      const dirPath = await resolveNotePath(requestedDirPath);
       await fs.rmdir(dirPath, { recursive: true });
+      notifyFileChange([dirPath]);
       return true;
     } catch (error) {
       console.error('Error deleting directory:', error);
       throw error;
     }
   });
+
+  // ファイルやフォルダをゴミ箱に移動
+  ipcMain.handle('fs:move-to-trash', async (event, requestedPath) => {
+    try {
+      const targetPath = await resolveNotePath(requestedPath);
+      const item = await moveToTrash(requireRootPath(), targetPath);
+      notifyFileChange([targetPath]);
+      return item;
+    } catch (error) {
+      console.error('Error moving to trash:', error);
+      throw error;
+    }
+  });
+
+  // ゴミ箱の中身を取得
+  ipcMain.handle('fs:list-trash', async () => {
+    try {
+      return await listTrash(requireRootPath());
+    } catch (error) {
+      console.error('Error listing trash:', error);
+      throw error;
+    }
+  });
+
+  // ゴミ箱から元の場所に戻す
+  ipcMain.handle('fs:restore-from-trash', async (event, id: string) => {
+    try {
+      const restoredPath = await restoreFromTrash(requireRootPath(), id);
+      notifyFileChange([restoredPath]);
+      return restoredPath;
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      throw error;
+    }
+  });
+
+  // ゴミ箱から完全に削除（識別子を指定しない場合はゴミ箱を空にする）
+  ipcMain.handle('fs:purge-trash', async (event, id?: string) => {
+    try {
+      await purgeTrash(requireRootPath(), id);
+      return true;
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      throw error;
+    }
+  });
 }
@@ -0,0 +1,90 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { isIgnoredPath, readIgnorePatterns } from '../git/gitUtils';
+
+// 変更されたファイルの絶対パスを受け取るリスナー
+type FileChangeListener = (filePaths: string[]) => void;
+
+// 最後の変更からこの時間だけ変更がなければまとめて通知する
+const NOTIFY_DELAY_MS = 200;
+// 変更が続いている場合（プルなどで大量のファイルが更新される場合）でも、この時間が経てば通知する
+const NOTIFY_MAX_DELAY_MS = 1000;
+
+const listeners = new Set<FileChangeListener>();
+let watcher: fs.FSWatcher | null = null;
+let watchedPath: string | null = null;
+// 監視中のディレクトリのgitignoreのパターン
+let ignorePatterns: string[] = [];
+let pendingPaths = new Set<string>();
+let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+let firstPendingAt = 0;
+
+const flushChanges = () => {
+  notifyTimer = null;
+  const filePaths = [...pendingPaths];
+  pendingPaths = new Set();
+  listeners.forEach((listener) => listener(filePaths));
+};
+
+// 変更されたファイルを通知する関数（アプリ内での書き込みや削除の後に呼び出す）
+export const notifyFileChange = (filePaths: string[]) => {
+  const now = Date.now();
+  if (pendingPaths.size === 0) firstPendingAt = now;
+  filePaths.forEach((filePath) => pendingPaths.add(path.resolve(filePath)));
+
+  if (notifyTimer) clearTimeout(notifyTimer);
+  const delay = Math.min(NOTIFY_DELAY_MS, Math.max(firstPendingAt + NOTIFY_MAX_DELAY_MS - now, 0));
+  notifyTimer = setTimeout(flushChanges, delay);
+};
+
+// ファイルの変更を購読する関数（戻り値の関数で購読を解除）
+export const onFileChange = (listener: FileChangeListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const loadIgnorePatterns = (dirPath: string) => {
+  readIgnorePatterns(dirPath)
+    .then((patterns) => {
+      if (watchedPath === dirPath) ignorePatterns = patterns;
+    })
+    .catch((error) => console.error('Error reading ignore patterns:', error));
+};
+
+// ディレクトリの配下を監視し、外部のエディターなどによる変更も通知する
+// 別のディレクトリを指定した場合は監視対象を切り替える
+export const watchDirectory = (dirPath: string) => {
+  if (watchedPath === dirPath) return;
+  watcher?.close();
+  watcher = null;
+  watchedPath = dirPath;
+  ignorePatterns = [];
+  loadIgnorePatterns(dirPath);
+
+  try {
+    watcher = fs.watch(dirPath, { recursive: true }, (eventType, filename) => {
+      if (!filename) return;
+      const relativePath = filename.split(path.sep).join('/');
+      if (relativePath === '.gitignore') {
+        // 無視するパターンが変わるため読み込み直す（gitignore自体の変更も通知する）
+        loadIgnorePatterns(dirPath);
+      } else if (isIgnoredPath(relativePath, ignorePatterns)) {
+        // .gitの配下の変更はGitの操作によるもの、gitignoreに一致するものは管理外なので通知しない
+        return;
+      }
+      notifyFileChange([path.join(dirPath, filename)]);
+    });
+    watcher.on('error', (error) => {
+      console.error('Error watching directory:', error);
+      watcher?.close();
+      watcher = null;
+      // 次に呼び出されたときに監視をやり直す
+      watchedPath = null;
+    });
+  } catch (error) {
+    // 監視できない場合もアプリ内での変更は通知される
+    console.error('Error watching directory:', error);
+  }
+};
@@ -0,0 +1,214 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileAccessErrorCode } from '../../types/fileAccess';
+
+const settings = vi.hoisted(() => ({ rootPath: '' as string | undefined }));
+
+vi.mock('../git/gitUtils', () => ({
+  getRepoPath: () => settings.rootPath,
+}));
+
+import { FileAccessError, findAvailablePath, resolveNotePath } from './pathResolver';
+
+// 一時ディレクトリの中にルートディレクトリとその外のディレクトリを作成する
+let tempDir: string;
+let root: string;
+let outside: string;
+
+beforeAll(async () => {
+  tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'path-resolver-')));
+  root = path.join(tempDir, 'notes');
+  outside = path.join(tempDir, 'outside');
+
+  await fs.mkdir(path.join(root, 'folder'), { recursive: true });
+  await fs.mkdir(path.join(root, '.git'), { recursive: true });
+  await fs.mkdir(path.join(root, '.trash'), { recursive: true });
+  await fs.mkdir(outside, { recursive: true });
+  await fs.mkdir(`${root}-other`, { recursive: true });
+  await fs.writeFile(path.join(root, 'note.md'), '');
+  await fs.writeFile(path.join(root, '.gitignore'), '');
+  await fs.writeFile(path.join(root, '.git', 'config'), '');
+  await fs.writeFile(path.join(outside, 'secret.md'), '');
+
+  await fs.symlink(outside, path.join(root, 'outside-link'));
+  await fs.symlink(path.join(outside, 'secret.md'), path.join(root, 'secret-link.md'));
+  await fs.symlink(path.join(outside, 'missing.md'), path.join(root, 'dangling-link.md'));
+  await fs.symlink(path.join(root, '.git'), path.join(root, 'git-link'));
+  await fs.symlink(path.join(root, 'folder'), path.join(root, 'folder-link'));
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  settings.rootPath = root;
+});
+
+const expectFileAccessError = async (promise: Promise<unknown>, code: string) => {
+  const error: unknown = await promise.catch((error) => error);
+  expect(error).toBeInstanceOf(FileAccessError);
+  expect((error as FileAccessError).code).toBe(code);
+};
+
+describe('resolveNotePath', () => {
+  it('ルートディレクトリの配下のパスを返す', async () => {
+    expect(await resolveNotePath(path.join(root, 'note.md'))).toBe(path.join(root, 'note.md'));
+    expect(await resolveNotePath(path.join(root, '.gitignore'))).toBe(
+      path.join(root, '.gitignore')
+    );
+  });
+
+  it('まだ存在しないファイルやフォルダのパスを返す', async () => {
+    const newPath = path.join(root, 'new-folder', 'new.md');
+    expect(await resolveNotePath(newPath)).toBe(newPath);
+  });
+
+  it('ルートディレクトリの配下にとどまる..を取り除いたパスを返す', async () => {
+    expect(await resolveNotePath(`${root}/folder/../note.md`)).toBe(path.join(root, 'note.md'));
+  });
+
+  it('..でルートディレクトリの外に出るパスを拒否する', async () => {
+    await expectFileAccessError(
+      resolveNotePath(`${root}/../outside/secret.md`),
+      FileAccessErrorCode.OUTSIDE_ROOT
+    );
+    await expectFileAccessError(
+      resolveNotePath(`${root}/folder/../../outside`),
+      FileAccessErrorCode.OUTSIDE_ROOT
+    );
+  });
+
+  it('ルートディレクトリの外の絶対パスを拒否する', async () => {
+    await expectFileAccessError(
+      resolveNotePath(path.join(outside, 'secret.md')),
+      FileAccessErrorCode.OUTSIDE_ROOT
+    );
+    // 名前の先頭が同じ別のディレクトリ
+    await expectFileAccessError(
+      resolveNotePath(path.join(`${root}-other`, 'note.md')),
+      FileAccessErrorCode.OUTSIDE_ROOT
+    );
+  });
+
+  it('ルートディレクトリの外を指すシンボリックリンクを拒否する', async () => {
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, 'outside-link', 'secret.md')),
+      FileAccessErrorCode.OUTSIDE_ROOT
+    );
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, 'outside-link', 'new.md')),
+      FileAccessErrorCode.OUTSIDE_ROOT
+    );
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, 'secret-link.md')),
+      FileAccessErrorCode.OUTSIDE_ROOT
+    );
+    // 参照先が存在しないシンボリックリンクは、書き込むと参照先に作成される
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, 'dangling-link.md')),
+      FileAccessErrorCode.OUTSIDE_ROOT
+    );
+  });
+
+  it('ルートディレクトリの配下を指すシンボリックリンクは許可する', async () => {
+    const linkedPath = path.join(root, 'folder-link', 'note.md');
+    expect(await resolveNotePath(linkedPath)).toBe(linkedPath);
+  });
+
+  it('.gitディレクトリとその配下を拒否する', async () => {
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, '.git')),
+      FileAccessErrorCode.GIT_DIRECTORY
+    );
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, '.git', 'config')),
+      FileAccessErrorCode.GIT_DIRECTORY
+    );
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, '.GIT', 'config')),
+      FileAccessErrorCode.GIT_DIRECTORY
+    );
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, 'git-link', 'config')),
+      FileAccessErrorCode.GIT_DIRECTORY
+    );
+  });
+
+  it('ゴミ箱のディレクトリとその配下を拒否する', async () => {
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, '.trash')),
+      FileAccessErrorCode.TRASH_DIRECTORY
+    );
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, '.trash', '1-abc.json')),
+      FileAccessErrorCode.TRASH_DIRECTORY
+    );
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, '.Trash', '1-abc.json')),
+      FileAccessErrorCode.TRASH_DIRECTORY
+    );
+    // 名前の先頭が同じ別のフォルダは許可する
+    const similarPath = path.join(root, '.trash-notes', 'note.md');
+    expect(await resolveNotePath(similarPath)).toBe(similarPath);
+  });
+
+  it('allowRootを指定した場合のみルートディレクトリ自体を許可する', async () => {
+    await expectFileAccessError(resolveNotePath(root), FileAccessErrorCode.ROOT_DIRECTORY);
+    await expectFileAccessError(
+      resolveNotePath(`${root}/folder/..`),
+      FileAccessErrorCode.ROOT_DIRECTORY
+    );
+    expect(await resolveNotePath(root, { allowRoot: true })).toBe(root);
+    expect(await resolveNotePath(`${root}/`, { allowRoot: true })).toBe(root);
+  });
+
+  it('NUL文字を含むパスを拒否する', async () => {
+    await expectFileAccessError(
+      resolveNotePath(`${root}/note.md\u0000.txt`),
+      FileAccessErrorCode.INVALID_PATH
+    );
+  });
+
+  it('相対パスや文字列以外を拒否する', async () => {
+    await expectFileAccessError(resolveNotePath('note.md'), FileAccessErrorCode.INVALID_PATH);
+    await expectFileAccessError(resolveNotePath(undefined), FileAccessErrorCode.INVALID_PATH);
+    await expectFileAccessError(resolveNotePath(['note.md']), FileAccessErrorCode.INVALID_PATH);
+  });
+
+  it('ルートディレクトリが設定されていない場合は拒否する', async () => {
+    settings.rootPath = undefined;
+    await expectFileAccessError(
+      resolveNotePath(path.join(root, 'note.md')),
+      FileAccessErrorCode.NO_ROOT_DIRECTORY
+    );
+  });
+});
+
+describe('findAvailablePath', () => {
+  it('存在しない場合はそのままのパスを返す', async () => {
+    const targetPath = path.join(root, 'folder', 'unused.md');
+    expect(await findAvailablePath(targetPath)).toBe(targetPath);
+  });
+
+  it('同じ名前のファイルがある場合は番号を付ける', async () => {
+    const targetPath = path.join(root, 'folder', 'duplicate.md');
+    await fs.writeFile(targetPath, '');
+    expect(await findAvailablePath(targetPath)).toBe(path.join(root, 'folder', 'duplicate (1).md'));
+
+    await fs.writeFile(path.join(root, 'folder', 'duplicate (1).md'), '');
+    expect(await findAvailablePath(targetPath)).toBe(path.join(root, 'folder', 'duplicate (2).md'));
+  });
+
+  it('拡張子のないフォルダには名前の末尾に番号を付ける', async () => {
+    expect(await findAvailablePath(path.join(root, 'folder'))).toBe(path.join(root, 'folder (1)'));
+  });
+
+  it('参照先が存在しないシンボリックリンクも使用中とみなす', async () => {
+    expect(await findAvailablePath(path.join(root, 'dangling-link.md'))).toBe(
+      path.join(root, 'dangling-link (1).md')
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { FileAccessErrorCode, FileAccessErrorCodeType } from '../../types/fileAccess';
+import { getRepoPath } from '../git/gitUtils';
+
+// レンダラーから指定されたパスにアクセスできない場合のエラー
+export class FileAccessError extends Error {
+  readonly code: FileAccessErrorCodeType;
+
+  constructor(code: FileAccessErrorCodeType, message: string) {
+    super(message);
+    this.name = 'FileAccessError';
+    this.code = code;
+  }
+}
+
+// 削除したファイルやフォルダを移動するディレクトリ（ルートディレクトリに置く）
+export const TRASH_DIRECTORY = '.trash';
+
+type ResolveOptions = {
+  // ルートディレクトリ自体を指定できるようにする（一覧の取得など、変更しない操作のみ）
+  allowRoot?: boolean;
+};
+
+// relativePathがベースのディレクトリの外を指しているかどうかを判定する関数
+const isOutside = (relativePath: string) =>
+  relativePath.split(path.sep)[0] === '..' || path.isAbsolute(relativePath);
+
+const isInGitDirectory = (relativePath: string) =>
+  relativePath.split(path.sep)[0].toLowerCase() === '.git';
+
+// ゴミ箱の中身はゴミ箱の操作からのみ変更する（メタデータの書き換えで別の場所に戻されないようにする）
+const isInTrashDirectory = (relativePath: string) =>
+  relativePath.split(path.sep)[0].toLowerCase() === TRASH_DIRECTORY;
+
+// シンボリックリンクをたどった実際のパスを取得する関数
+// 存在しないパス（これから作成するファイルなど）は、存在する親のディレクトリまでをたどる
+const resolveRealPath = async (targetPath: string): Promise<string> => {
+  try {
+    return await fs.realpath(targetPath);
+  } catch (error) {
+    const parent = path.dirname(targetPath);
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === targetPath) throw error;
+
+    // 参照先が存在しないシンボリックリンクは、書き込むと参照先に作成されるため参照先をたどる
+    const stats = await fs.lstat(targetPath).catch(() => null);
+    if (stats?.isSymbolicLink()) {
+      return resolveRealPath(path.resolve(parent, await fs.readlink(targetPath)));
+    }
+    return path.join(await resolveRealPath(parent), path.basename(targetPath));
+  }
+};
+
+// ルートディレクトリからの相対パスを検証する関数
+const assertAccessible = (
+  root: string,
+  targetPath: string,
+  requestedPath: string,
+  options: ResolveOptions
+) => {
+  const relativePath = path.relative(root, targetPath);
+  if (isOutside(relativePath)) {
+    throw new FileAccessError(
+      FileAccessErrorCode.OUTSIDE_ROOT,
+      `ルートディレクトリの外にはアクセスできません: ${requestedPath}`
+    );
+  }
+  if (relativePath === '' && !options.allowRoot) {
+    throw new FileAccessError(
+      FileAccessErrorCode.ROOT_DIRECTORY,
+      `ルートディレクトリ自体は変更できません: ${requestedPath}`
+    );
+  }
+  if (isInGitDirectory(relativePath)) {
+    throw new FileAccessError(
+      FileAccessErrorCode.GIT_DIRECTORY,
+      `.gitディレクトリにはアクセスできません: ${requestedPath}`
+    );
+  }
+  if (isInTrashDirectory(relativePath)) {
+    throw new FileAccessError(
+      FileAccessErrorCode.TRASH_DIRECTORY,
+      `ゴミ箱のディレクトリにはアクセスできません: ${requestedPath}`
+    );
+  }
+};
+
+// レンダラーから指定されたパスを正規化し、ルートディレクトリの配下であることを確認する関数
+// ルートディレクトリの外（シンボリックリンクによる参照を含む）や.git、ゴミ箱のディレクトリの配下の場合はエラーを投げる
+export const resolveNotePath = async (
+  requestedPath: unknown,
+  options: ResolveOptions = {}
+): Promise<string> => {
+  if (
+    typeof requestedPath !== 'string' ||
+    requestedPath.includes('\u0000') ||
+    !path.isAbsolute(requestedPath)
+  ) {
+    throw new FileAccessError(
+      FileAccessErrorCode.INVALID_PATH,
+      `不正なパスです: ${String(requestedPath)}`
+    );
+  }
+
+  const rootPath = getRepoPath();
+  if (!rootPath) {
+    throw new FileAccessError(
+      FileAccessErrorCode.NO_ROOT_DIRECTORY,
+      'ルートディレクトリが設定されていません'
+    );
+  }
+
+  // ..などを取り除いたパスで確認する
+  const root = path.resolve(rootPath);
+  const resolvedPath = path.resolve(requestedPath);
+  assertAccessible(root, resolvedPath, requestedPath, options);
+
+  // シンボリックリンクの参照先がルートディレクトリの外や.gitディレクトリを指していないかを確認する
+  const realRoot = await resolveRealPath(root);
+  assertAccessible(realRoot, await resolveRealPath(resolvedPath), requestedPath, options);
+
+  return resolvedPath;
+};
+
+// 同じ名前のファイルやフォルダがある場合は「名前 (1).md」のように番号を付けたパスを返す関数
+export const findAvailablePath = async (targetPath: string) => {
+  const extension = path.extname(targetPath);
+  const base = targetPath.slice(0, targetPath.length - extension.length);
+  for (let index = 0; ; index++) {
+    const candidate = index === 0 ? targetPath : `${base} (${index})${extension}`;
+    try {
+      await fs.lstat(candidate);
+    } catch {
+      return candidate;
+    }
+  }
+};
@@ -0,0 +1,123 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { TrashItem } from '../../types/trash';
+import { findAvailablePath, resolveNotePath, TRASH_DIRECTORY } from './pathResolver';
+
+// ゴミ箱のディレクトリには、<id> に削除したファイルやフォルダ、<id>.json に元の場所などの情報を保存する
+
+const TRASH_ID_PATTERN = /^[0-9]+-[0-9a-f]+$/;
+
+const getTrashPath = (rootPath: string) => path.join(rootPath, TRASH_DIRECTORY);
+
+// レンダラーから指定された識別子を検証してゴミ箱の中のパスを取得する関数
+const getTrashEntryPaths = (rootPath: string, id: string) => {
+  if (!TRASH_ID_PATTERN.test(id)) throw new Error(`不正な識別子です: ${id}`);
+  const entryPath = path.join(getTrashPath(rootPath), id);
+  return { entryPath, metadataPath: `${entryPath}.json` };
+};
+
+const readTrashItem = async (metadataPath: string): Promise<TrashItem> => {
+  return JSON.parse(await fs.readFile(metadataPath, 'utf-8')) as TrashItem;
+};
+
+// 外部のGitでもゴミ箱がコミットされないように、リポジトリの除外設定に追加する関数
+const excludeTrashFromGit = async (rootPath: string) => {
+  const gitdir = path.join(rootPath, '.git');
+  try {
+    await fs.access(gitdir);
+  } catch {
+    // リポジトリではない場合は何もしない
+    return;
+  }
+
+  const excludePath = path.join(gitdir, 'info', 'exclude');
+  const entry = `/${TRASH_DIRECTORY}/`;
+  const existing = await fs.readFile(excludePath, 'utf-8').catch(() => '');
+  if (existing.split(/\r?\n/).includes(entry)) return;
+
+  await fs.mkdir(path.dirname(excludePath), { recursive: true });
+  const prefix = existing === '' || existing.endsWith('\n') ? '' : '\n';
+  await fs.appendFile(excludePath, `${prefix}${entry}\n`, 'utf-8');
+};
+
+// ファイルやフォルダをゴミ箱に移動する関数
+export const moveToTrash = async (rootPath: string, targetPath: string): Promise<TrashItem> => {
+  const stats = await fs.lstat(targetPath);
+  const trashPath = getTrashPath(rootPath);
+  await fs.mkdir(trashPath, { recursive: true });
+  await excludeTrashFromGit(rootPath);
+
+  const id = `${Date.now()}-${randomBytes(4).toString('hex')}`;
+  const { entryPath, metadataPath } = getTrashEntryPaths(rootPath, id);
+  const item: TrashItem = {
+    id,
+    name: path.basename(targetPath),
+    originalPath: path.relative(rootPath, targetPath).split(path.sep).join('/'),
+    isDirectory: stats.isDirectory(),
+    deletedAt: new Date().toISOString(),
+  };
+
+  // 情報を先に書き込み、移動に失敗した場合は取り消す
+  await fs.writeFile(metadataPath, JSON.stringify(item, null, 2), 'utf-8');
+  try {
+    await fs.rename(targetPath, entryPath);
+  } catch (error) {
+    await fs.rm(metadataPath, { force: true });
+    throw error;
+  }
+  return item;
+};
+
+// ゴミ箱の中身を削除した日時が新しい順に取得する関数
+export const listTrash = async (rootPath: string): Promise<TrashItem[]> => {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(getTrashPath(rootPath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const items: TrashItem[] = [];
+  for (const entry of entries) {
+    if (!entry.endsWith('.json')) continue;
+    try {
+      items.push(await readTrashItem(path.join(getTrashPath(rootPath), entry)));
+    } catch (error) {
+      console.error('Error reading trash item:', error);
+    }
+  }
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+// ゴミ箱の中のファイルやフォルダを元の場所に戻す関数（戻した場所の絶対パスを返す）
+export const restoreFromTrash = async (rootPath: string, id: string): Promise<string> => {
+  const { entryPath, metadataPath } = getTrashEntryPaths(rootPath, id);
+  const item = await readTrashItem(metadataPath);
+
+  // 情報のファイルは書き換えられている可能性があるため、戻す場所をレンダラーから指定されたパスと同様に検証する
+  if (typeof item.originalPath !== 'string') {
+    throw new Error(`元の場所が不正です: ${id}`);
+  }
+  const originalPath = await resolveNotePath(path.resolve(rootPath, item.originalPath));
+
+  // 元のフォルダが削除されている場合は作り直す
+  await fs.mkdir(path.dirname(originalPath), { recursive: true });
+  const restoredPath = await findAvailablePath(originalPath);
+  await fs.rename(entryPath, restoredPath);
+  await fs.rm(metadataPath, { force: true });
+  return restoredPath;
+};
+
+// ゴミ箱の中のファイルやフォルダを完全に削除する関数（識別子を指定しない場合はゴミ箱を空にする）
+export const purgeTrash = async (rootPath: string, id?: string) => {
+  if (!id) {
+    await fs.rm(getTrashPath(rootPath), { recursive: true, force: true });
+    return;
+  }
+
+  const { entryPath, metadataPath } = getTrashEntryPaths(rootPath, id);
+  await fs.rm(entryPath, { recursive: true, force: true });
+  await fs.rm(metadataPath, { force: true });
+};
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { diffLines } from 'diff';
+import { BlameResult } from '../../types/gitBlame';
+import { CommitSummary } from '../../types/gitLog';
+import { getRepoPath, readCommitContent, toCommitSummary, toRepoRelativePath } from './gitUtils';
+
+// 内容を行に分割する関数（末尾の改行は行に含めない）
+const splitLines = (content: string) => {
+  if (!content) return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// 変更後の各行が変更前の何行目にあたるかを求める関数（追加された行はnull）
+const mapToPreviousLines = (previousContent: string, content: string): (number | null)[] => {
+  const mapping: (number | null)[] = [];
+  let previousIndex = 0;
+
+  diffLines(previousContent, content).forEach((change) => {
+    const count = change.count ?? splitLines(change.value).length;
+    if (change.added) {
+      for (let i = 0; i < count; i++) mapping.push(null);
+    } else if (change.removed) {
+      previousIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) mapping.push(previousIndex++);
+    }
+  });
+
+  return mapping;
+};
+
+export function setupGitBlameHandlers() {
+  // ファイルの各行を最後に変更したコミットを求める（filePathは絶対パス）
+  ipcMain.handle('git:blame', async (event, filePath: string): Promise<BlameResult> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const filepath = toRepoRelativePath(repoPath, filePath);
+    const gitdir = path.join(repoPath, '.git');
+    const headContent = await readCommitContent(repoPath, 'HEAD', filepath);
+    if (headContent === null) return { lines: [], commits: {} };
+
+    const lines = splitLines(headContent);
+    const owners: string[] = [];
+    // 各行が調べているコミットの時点で何行目にあるか（変更したコミットが決まった行はnull）
+    let positions: (number | null)[] = lines.map((_, index) => index);
+    const commits: Record<string, CommitSummary> = {};
+
+    // 最初の親をたどり、親との差分で追加された行をそのコミットで書かれた行とする
+    let oid = await git.resolveRef({ fs: fs, dir: repoPath, gitdir: gitdir, ref: 'HEAD' });
+    let content = headContent;
+    while (positions.some((position) => position !== null)) {
+      const result = await git.readCommit({ fs: fs, dir: repoPath, gitdir: gitdir, oid: oid });
+      const [parent] = result.commit.parent;
+      const previousContent = parent ? await readCommitContent(repoPath, parent, filepath) : null;
+
+      if (previousContent !== content) {
+        const mapping = mapToPreviousLines(previousContent ?? '', content);
+        positions = positions.map((position, index) => {
+          if (position === null) return null;
+          const previousPosition = mapping[position] ?? null;
+          if (previousPosition === null) {
+            owners[index] = oid;
+            commits[oid] = toCommitSummary(result);
+          }
+          return previousPosition;
+        });
+      }
+
+      if (!parent || previousContent === null) break;
+      oid = parent;
+      content = previousContent;
+    }
+
+    return {
+      lines: lines.map((line, index) => ({ content: line, oid: owners[index] })),
+      commits,
+    };
+  });
+}
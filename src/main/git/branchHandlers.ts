@@ -0,0 +1,97 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { BranchList, CheckoutResult, CheckoutStatus } from '../../types/gitBranch';
+import { getChangedFiles, getRepoPath, getUncommittedFiles } from './gitUtils';
+
+export function setupGitBranchHandlers() {
+  // ブランチ一覧を取得
+  ipcMain.handle('git:list-branches', async (): Promise<BranchList> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const gitdir = path.join(repoPath, '.git');
+    const branches = await git.listBranches({ fs: fs, dir: repoPath, gitdir: gitdir });
+    const current = await git.currentBranch({ fs: fs, dir: repoPath, gitdir: gitdir });
+    return { current: current || null, branches: branches.sort() };
+  });
+
+  // HEADから新しいブランチを作成
+  ipcMain.handle('git:create-branch', async (event, name: string, checkout: boolean) => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    await git.branch({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      ref: name,
+      checkout: checkout,
+    });
+  });
+
+  // ブランチの切り替え
+  ipcMain.handle(
+    'git:checkout-branch',
+    async (event, name: string, force: boolean): Promise<CheckoutResult> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const gitdir = path.join(repoPath, '.git');
+
+      // 未コミットの変更がある場合は確認が取れるまで切り替えない
+      const uncommittedFiles = await getUncommittedFiles(repoPath);
+      if (uncommittedFiles.length > 0 && !force) {
+        return { status: CheckoutStatus.UNCOMMITTED_CHANGES, changedFiles: uncommittedFiles };
+      }
+
+      const beforeOid = await git.resolveRef({
+        fs: fs,
+        dir: repoPath,
+        gitdir: gitdir,
+        ref: 'HEAD',
+      });
+      await git.checkout({ fs: fs, dir: repoPath, gitdir: gitdir, ref: name, force: force });
+      const afterOid = await git.resolveRef({ fs: fs, dir: repoPath, gitdir: gitdir, ref: 'HEAD' });
+
+      const changedFiles = await getChangedFiles(repoPath, beforeOid, afterOid);
+      return {
+        status: CheckoutStatus.CHECKED_OUT,
+        // 破棄した未コミットの変更も更新対象に含める
+        changedFiles: Array.from(new Set([...changedFiles, ...uncommittedFiles])),
+      };
+    }
+  );
+
+  // ブランチ名の変更
+  ipcMain.handle('git:rename-branch', async (event, oldName: string, newName: string) => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const gitdir = path.join(repoPath, '.git');
+    const current = await git.currentBranch({ fs: fs, dir: repoPath, gitdir: gitdir });
+
+    await git.renameBranch({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      oldref: oldName,
+      ref: newName,
+      // 現在のブランチをリネームする場合はHEADも付け替える
+      checkout: current === oldName,
+    });
+  });
+
+  // ブランチの削除
+  ipcMain.handle('git:delete-branch', async (event, name: string) => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const gitdir = path.join(repoPath, '.git');
+    const current = await git.currentBranch({ fs: fs, dir: repoPath, gitdir: gitdir });
+    if (current === name) throw new Error('現在のブランチは削除できません');
+
+    await git.deleteBranch({ fs: fs, dir: repoPath, gitdir: gitdir, ref: name });
+  });
+}
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import http from 'isomorphic-git/http/node';
+import { CloneProgress, CloneResult, CloneStatus } from '../../types/gitClone';
+import { getGitSettings, getRemoteAuth, setRepoPath } from './gitUtils';
+
+export function setupGitCloneHandlers() {
+  // 設定されたリモートURLからクローンし、ルートディレクトリに設定
+  ipcMain.handle('git:clone', async (event, dirPath: string): Promise<CloneResult> => {
+    const gitSettings = getGitSettings();
+    if (!gitSettings?.remoteUrl) throw new Error('リモートURLが設定されていません');
+
+    // 既存のファイルを上書きしないよう、空のディレクトリにのみクローンする
+    const entries = await fs.promises.readdir(dirPath);
+    if (entries.length > 0) throw new Error('クローン先のディレクトリが空ではありません');
+
+    const gitdir = path.join(dirPath, '.git');
+    const onAuth = getRemoteAuth(gitSettings, 'origin');
+
+    // リモートにブランチがあるかを確認
+    const refs = await git.listServerRefs({
+      http,
+      url: gitSettings.remoteUrl,
+      prefix: 'refs/heads/',
+      onAuth,
+    });
+
+    // リモートが空の場合は新しいリポジトリを作成してoriginを追加する
+    if (refs.length === 0) {
+      await git.init({ fs: fs, dir: dirPath, gitdir: gitdir, defaultBranch: 'main' });
+      await git.addRemote({
+        fs: fs,
+        dir: dirPath,
+        gitdir: gitdir,
+        remote: 'origin',
+        url: gitSettings.remoteUrl,
+      });
+      setRepoPath(dirPath);
+      return { status: CloneStatus.INITIALIZED, path: dirPath };
+    }
+
+    try {
+      await git.clone({
+        http,
+        fs: fs,
+        dir: dirPath,
+        gitdir: gitdir,
+        url: gitSettings.remoteUrl,
+        onAuth,
+        onProgress: (progress) => {
+          const cloneProgress: CloneProgress = {
+            phase: progress.phase,
+            loaded: progress.loaded,
+            total: progress.total ?? null,
+          };
+          event.sender.send('git:clone-progress', cloneProgress);
+        },
+      });
+    } catch (error) {
+      // 途中まで作成されたファイルを削除して空のディレクトリに戻す
+      const createdEntries = await fs.promises.readdir(dirPath);
+      await Promise.all(
+        createdEntries.map((entry) =>
+          fs.promises.rm(path.join(dirPath, entry), { recursive: true, force: true })
+        )
+      );
+      throw error;
+    }
+
+    setRepoPath(dirPath);
+    return { status: CloneStatus.CLONED, path: dirPath };
+  });
+}
@@ -0,0 +1,343 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { diff3Merge } from 'node-diff3';
+import { diffLines } from 'diff';
+import { LastCommitInfo } from '../../types/gitCommit';
+import {
+  getChangedFiles,
+  getCommitSettings,
+  getCurrentBranch,
+  getGitSettings,
+  getRepoPath,
+  getStatusMatrix,
+  getUncommittedFiles,
+  isCommitPushed,
+  readHeadContent,
+  readIndexContent,
+  readMergeHead,
+  toCommitSummary,
+} from './gitUtils';
+import { assertNoStagedSecrets } from './secretScanner';
+
+// コミットメッセージに名前を列挙するファイル数と見出し数の上限
+const MAX_LISTED_FILES = 3;
+const MAX_LISTED_HEADINGS = 5;
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+// ステージ済みのファイルを追加・変更・削除に分類する関数
+const classifyStagedFiles = async (repoPath: string) => {
+  const added: string[] = [];
+  const modified: string[] = [];
+  const deleted: string[] = [];
+
+  for (const [filepath, head, , stage] of await getStatusMatrix(repoPath)) {
+    if (head === stage) continue;
+    if (head === 0) {
+      added.push(filepath);
+    } else if (stage === 0) {
+      deleted.push(filepath);
+    } else {
+      modified.push(filepath);
+    }
+  }
+  return { added, modified, deleted };
+};
+
+// ステージ済みの変更の要約を生成する関数
+// 最初の種類の変更が1件だけの場合はファイル名、それ以外は件数で表す
+// 例: "Update meeting/2026-10-17.md, add 2 notes, delete 1 note"
+const generateSummary = ({
+  added,
+  modified,
+  deleted,
+}: {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}) => {
+  const groups: [string, string[]][] = [
+    ['update', modified],
+    ['add', added],
+    ['delete', deleted],
+  ];
+  const summary = groups
+    .filter(([, filepaths]) => filepaths.length > 0)
+    .map(([verb, filepaths], index) =>
+      index === 0 && filepaths.length === 1
+        ? `${verb} ${filepaths[0]}`
+        : `${verb} ${filepaths.length} ${filepaths.length === 1 ? 'note' : 'notes'}`
+    )
+    .join(', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+};
+
+// 変更された行の直前にあるマークダウンの見出しを取得する関数
+const collectTouchedHeadings = (oldContent: string, newContent: string) => {
+  const headings = new Set<string>();
+  // 変更前と変更後それぞれで、直前に現れた見出し
+  let oldHeading: string | null = null;
+  let newHeading: string | null = null;
+
+  diffLines(oldContent, newContent).forEach((change) => {
+    const lines = change.value.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+
+    for (const line of lines) {
+      const heading = line.match(HEADING_PATTERN)?.[1] ?? null;
+      if (change.added) {
+        newHeading = heading ?? newHeading;
+        if (newHeading) headings.add(newHeading);
+      } else if (change.removed) {
+        oldHeading = heading ?? oldHeading;
+        if (oldHeading) headings.add(oldHeading);
+      } else if (heading) {
+        oldHeading = heading;
+        newHeading = heading;
+      }
+    }
+  });
+
+  return [...headings];
+};
+
+// テンプレートのプレースホルダーを置き換える関数（未知のプレースホルダーはそのまま残す）
+const applyTemplate = (template: string, values: Record<string, string>) => {
+  return template
+    .replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const formatDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// コミットにあるファイルの内容をそのまま取得する関数（存在しない場合はnull）
+const readBlobAt = async (repoPath: string, oid: string, filepath: string) => {
+  try {
+    const { blob } = await git.readBlob({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      oid: oid,
+      filepath: filepath,
+    });
+    return Buffer.from(blob);
+  } catch (error) {
+    if (error instanceof git.Errors.NotFoundError) return null;
+    throw error;
+  }
+};
+
+const isSameContent = (a: Buffer | null, b: Buffer | null) => {
+  if (!a || !b) return a === b;
+  return a.equals(b);
+};
+
+// HEADのコミットを取得し、書き換えられるかを確認する関数
+const readRewritableHead = async (repoPath: string) => {
+  if (await readMergeHead(repoPath)) {
+    throw new Error('マージ中はコミットを書き換えられません');
+  }
+
+  const [head] = await git.log({
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    ref: 'HEAD',
+    depth: 1,
+  });
+  if (!head) throw new Error('コミットがありません');
+  if (await isCommitPushed(repoPath, head.oid)) {
+    throw new Error('プッシュ済みのコミットは書き換えられません');
+  }
+  return head;
+};
+
+export function setupGitCommitHandlers() {
+  // ステージ済みの変更から設定のテンプレートに沿ってコミットメッセージを生成
+  ipcMain.handle('git:generate-commit-message', async (): Promise<string> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const stagedFiles = await classifyStagedFiles(repoPath);
+    const filepaths = [...stagedFiles.modified, ...stagedFiles.added, ...stagedFiles.deleted];
+    if (filepaths.length === 0) throw new Error('ステージされた変更がありません');
+
+    // 追加・変更したノートの見出しのうち、変更された箇所のものを集める
+    const headings = new Set<string>();
+    for (const filepath of [...stagedFiles.modified, ...stagedFiles.added]) {
+      if (!filepath.endsWith('.md')) continue;
+      const oldContent = (await readHeadContent(repoPath, filepath)) ?? '';
+      const newContent = (await readIndexContent(repoPath, filepath)) ?? '';
+      collectTouchedHeadings(oldContent, newContent).forEach((heading) => headings.add(heading));
+    }
+
+    const listedFiles = filepaths.slice(0, MAX_LISTED_FILES);
+    const restFiles = filepaths.length - listedFiles.length;
+    const listedHeadings = [...headings].slice(0, MAX_LISTED_HEADINGS);
+
+    return applyTemplate(getCommitSettings().template, {
+      summary: generateSummary(stagedFiles),
+      date: formatDate(new Date()),
+      branch: await getCurrentBranch(repoPath),
+      files: `${listedFiles.join(', ')}${restFiles > 0 ? ` and ${restFiles} more` : ''}`,
+      headings: listedHeadings.map((heading) => `- ${heading}`).join('\n'),
+    });
+  });
+
+  // 最後のコミットとプッシュ済みかどうかを取得
+  ipcMain.handle('git:last-commit', async (): Promise<LastCommitInfo> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    try {
+      const [head] = await git.log({
+        fs: fs,
+        dir: repoPath,
+        gitdir: path.join(repoPath, '.git'),
+        ref: 'HEAD',
+        depth: 1,
+      });
+      return { commit: toCommitSummary(head), isPushed: await isCommitPushed(repoPath, head.oid) };
+    } catch (error) {
+      // コミットがまだ存在しない場合
+      if (error instanceof git.Errors.NotFoundError) return { commit: null, isPushed: false };
+      throw error;
+    }
+  });
+
+  // 最後のコミットをステージ済みの変更とメッセージで作り直す（メッセージを省略した場合は元のまま）
+  ipcMain.handle(
+    'git:amend-commit',
+    async (event, message?: string, allowedFindings: string[] = []): Promise<string> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      await readRewritableHead(repoPath);
+      await assertNoStagedSecrets(repoPath, allowedFindings);
+
+      // 作成者は元のコミットのまま引き継がれる
+      return git.commit({
+        fs: fs,
+        dir: repoPath,
+        gitdir: path.join(repoPath, '.git'),
+        message: message || undefined,
+        amend: true,
+      });
+    }
+  );
+
+  // 最後のコミットを取り消し、変更をステージ済みの状態に戻す（git reset --soft HEAD~1）
+  ipcMain.handle('git:undo-commit', async (): Promise<void> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const head = await readRewritableHead(repoPath);
+    const [parent] = head.commit.parent;
+    if (!parent) throw new Error('最初のコミットは取り消せません');
+
+    // インデックスと作業ディレクトリは変更せず、ブランチだけを親コミットに戻す
+    const branch = await getCurrentBranch(repoPath);
+    await git.writeRef({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      ref: `refs/heads/${branch}`,
+      value: parent,
+      force: true,
+    });
+  });
+
+  // コミットの変更を打ち消すコミットを作成する。変更されたファイルの相対パスを返す
+  ipcMain.handle('git:revert-commit', async (event, oid: string): Promise<string[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+    const gitSettings = getGitSettings();
+    if (!gitSettings) throw new Error('Gitの設定が設定されていません');
+
+    const gitdir = path.join(repoPath, '.git');
+    if (await readMergeHead(repoPath)) {
+      throw new Error('マージ中はコミットを元に戻せません');
+    }
+    if ((await getUncommittedFiles(repoPath)).length > 0) {
+      throw new Error('コミットされていない変更があるため元に戻せません');
+    }
+
+    const { commit } = await git.readCommit({ fs: fs, dir: repoPath, gitdir: gitdir, oid: oid });
+    if (commit.parent.length > 1) throw new Error('マージコミットは元に戻せません');
+    const parent = commit.parent[0] ?? null;
+    const headOid = await git.resolveRef({ fs: fs, dir: repoPath, gitdir: gitdir, ref: 'HEAD' });
+
+    // コミット後の内容を共通の祖先、コミット前の内容を相手として現在の内容と3方向マージする
+    const filepaths = await getChangedFiles(repoPath, parent, oid);
+    const results = new Map<string, Buffer | null>();
+    for (const filepath of filepaths) {
+      const current = await readBlobAt(repoPath, headOid, filepath);
+      const after = await readBlobAt(repoPath, oid, filepath);
+      const before = parent ? await readBlobAt(repoPath, parent, filepath) : null;
+
+      if (isSameContent(current, after)) {
+        // コミット後に変更されていない場合はコミット前の内容に戻す
+        results.set(filepath, before);
+      } else if (isSameContent(current, before)) {
+        // すでにコミット前の内容に戻っている場合は何もしない
+        continue;
+      } else if (current && after && before) {
+        const regions = diff3Merge(
+          current.toString('utf-8').split('\n'),
+          after.toString('utf-8').split('\n'),
+          before.toString('utf-8').split('\n')
+        );
+        if (regions.some((region) => region.conflict)) {
+          throw new Error(`${filepath} がその後のコミットで変更されているため元に戻せません`);
+        }
+        const merged = Buffer.from(
+          regions.flatMap((region) => region.ok ?? []).join('\n'),
+          'utf-8'
+        );
+        // マージしても現在の内容から変わらない場合は何もしない
+        if (isSameContent(current, merged)) continue;
+        results.set(filepath, merged);
+      } else {
+        throw new Error(`${filepath} がその後のコミットで変更されているため元に戻せません`);
+      }
+    }
+
+    // すでに打ち消されている場合やファイルの変更がないコミットは、空のコミットを作成しない
+    if (results.size === 0) {
+      throw new Error('このコミットの変更はすでに元に戻されているため、元に戻す変更がありません');
+    }
+
+    // コンフリクトがないことを確認してから作業ディレクトリとインデックスに反映する
+    for (const [filepath, content] of results) {
+      const absolutePath = path.join(repoPath, filepath);
+      if (content) {
+        await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+        await fs.promises.writeFile(absolutePath, content);
+        await git.add({ fs: fs, dir: repoPath, gitdir: gitdir, filepath: filepath });
+      } else {
+        await fs.promises.rm(absolutePath, { force: true });
+        await git.remove({ fs: fs, dir: repoPath, gitdir: gitdir, filepath: filepath });
+      }
+    }
+
+    const subject = commit.message.split('\n')[0];
+    await git.commit({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      message: `Revert "${subject}"\n\nThis reverts commit ${oid}.`,
+      author: {
+        name: gitSettings.author.name,
+        email: gitSettings.author.email,
+      },
+    });
+
+    return [...results.keys()];
+  });
+}
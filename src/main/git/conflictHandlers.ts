@@ -0,0 +1,132 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { diff3Merge } from 'node-diff3';
+import {
+  ConflictRegion,
+  ConflictRegionType,
+  FileConflict,
+  MergeState,
+} from '../../types/gitConflict';
+import { resolveNotePath } from '../fileSystem/pathResolver';
+import {
+  clearMergeState,
+  getRepoPath,
+  readCommitContent,
+  readMergeHead,
+  readUnmergedPaths,
+  toRepoRelativePath,
+} from './gitUtils';
+
+// 内容を行の配列に変換する関数（存在しないファイルは空とみなす）
+const toLines = (content: string | null) => {
+  return content ? content.split('\n') : [];
+};
+
+// レンダラーから指定された相対パスを検証し、書き込み先の絶対パスを取得する関数
+// ルートディレクトリの外や.gitディレクトリの配下、コンフリクトしていないファイルの場合はエラーを投げる
+const resolveConflictedPath = async (repoPath: string, filepath: unknown) => {
+  if (typeof filepath !== 'string' || filepath === '' || path.isAbsolute(filepath)) {
+    throw new Error(`不正なパスです: ${String(filepath)}`);
+  }
+
+  const absolutePath = await resolveNotePath(path.resolve(repoPath, filepath));
+  if (toRepoRelativePath(repoPath, absolutePath) !== filepath) {
+    throw new Error(`不正なパスです: ${filepath}`);
+  }
+
+  const unmergedPaths = await readUnmergedPaths(repoPath);
+  if (!unmergedPaths.includes(filepath)) {
+    throw new Error(`コンフリクトしていないファイルです: ${filepath}`);
+  }
+  return absolutePath;
+};
+
+export function setupGitConflictHandlers() {
+  // マージの状態を取得
+  ipcMain.handle('git:merge-state', async (): Promise<MergeState> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const mergeHead = await readMergeHead(repoPath);
+    if (!mergeHead) {
+      return { inProgress: false, mergeHead: null, message: '', conflictedFiles: [] };
+    }
+
+    let message = '';
+    try {
+      message = await fs.promises.readFile(path.join(repoPath, '.git', 'MERGE_MSG'), 'utf-8');
+    } catch (error) {
+      // MERGE_MSGが存在しない場合は空文字列のまま
+    }
+
+    return {
+      inProgress: true,
+      mergeHead,
+      message: message.trim(),
+      conflictedFiles: await readUnmergedPaths(repoPath),
+    };
+  });
+
+  // コンフリクトしているファイルのHEAD・マージ対象・共通の祖先の内容を比較
+  ipcMain.handle('git:get-conflict', async (event, filepath: string): Promise<FileConflict> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const mergeHead = await readMergeHead(repoPath);
+    if (!mergeHead) throw new Error('マージは進行していません');
+
+    const gitdir = path.join(repoPath, '.git');
+    const headOid = await git.resolveRef({ fs: fs, dir: repoPath, gitdir: gitdir, ref: 'HEAD' });
+    const [baseOid] = await git.findMergeBase({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      oids: [headOid, mergeHead],
+    });
+
+    const ours = toLines(await readCommitContent(repoPath, headOid, filepath));
+    const theirs = toLines(await readCommitContent(repoPath, mergeHead, filepath));
+    const base = baseOid ? toLines(await readCommitContent(repoPath, baseOid, filepath)) : [];
+
+    const regions: ConflictRegion[] = diff3Merge(ours, base, theirs, {
+      excludeFalseConflicts: true,
+    }).map((region) =>
+      region.conflict
+        ? {
+            type: ConflictRegionType.CONFLICT,
+            ours: region.conflict.a,
+            base: region.conflict.o,
+            theirs: region.conflict.b,
+          }
+        : { type: ConflictRegionType.RESOLVED, lines: region.ok ?? [] }
+    );
+
+    return { filepath, regions };
+  });
+
+  // 解決した内容を書き込んでステージング
+  ipcMain.handle('git:resolve-conflict', async (event, filepath: string, content: string) => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const absolutePath = await resolveConflictedPath(repoPath, filepath);
+    await fs.promises.writeFile(absolutePath, content, 'utf-8');
+    await git.add({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      filepath: filepath,
+    });
+  });
+
+  // マージを中止してHEADの状態に戻す
+  ipcMain.handle('git:abort-merge', async () => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    await git.abortMerge({ fs: fs, dir: repoPath, gitdir: path.join(repoPath, '.git') });
+    await clearMergeState(repoPath);
+  });
+}
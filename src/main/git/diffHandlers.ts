@@ -0,0 +1,206 @@
+import { ipcMain } from 'electron';
+import { diffLines, structuredPatch } from 'diff';
+import {
+  DiffHunk,
+  DiffLine,
+  DiffLineSelection,
+  DiffLineType,
+  DiffTarget,
+  DiffTargetType,
+  FileDiff,
+} from '../../types/gitDiff';
+import {
+  getRepoPath,
+  readHeadContent,
+  readIndexContent,
+  readWorkdirContent,
+  writeIndexContent,
+} from './gitUtils';
+
+// 2つの内容の差分をハンク単位で求める関数
+const toDiffHunks = (oldContent: string, newContent: string): DiffHunk[] => {
+  const patch = structuredPatch('', '', oldContent, newContent, '', '', { context: 3 });
+
+  return patch.hunks.map((hunk) => {
+    let oldLineNumber = hunk.oldStart;
+    let newLineNumber = hunk.newStart;
+    const lines: DiffLine[] = [];
+
+    hunk.lines.forEach((line) => {
+      const marker = line[0];
+      const content = line.slice(1);
+      if (marker === '+') {
+        lines.push({
+          type: DiffLineType.ADDED,
+          content,
+          oldLineNumber: null,
+          newLineNumber: newLineNumber++,
+        });
+      } else if (marker === '-') {
+        lines.push({
+          type: DiffLineType.REMOVED,
+          content,
+          oldLineNumber: oldLineNumber++,
+          newLineNumber: null,
+        });
+      } else if (marker === ' ') {
+        lines.push({
+          type: DiffLineType.CONTEXT,
+          content,
+          oldLineNumber: oldLineNumber++,
+          newLineNumber: newLineNumber++,
+        });
+      }
+      // "\ No newline at end of file" の行は表示しない
+    });
+
+    return {
+      oldStart: hunk.oldStart,
+      oldLines: hunk.oldLines,
+      newStart: hunk.newStart,
+      newLines: hunk.newLines,
+      lines,
+    };
+  });
+};
+
+// バイナリファイルかどうかを判定する関数
+const isBinaryContent = (content: string | null) => {
+  return content !== null && content.includes('\0');
+};
+
+// 行が選択されているかどうかを判定する関数
+const isLineSelected = (
+  selection: DiffLineSelection,
+  type: DiffLine['type'],
+  lineNumber: number
+) => {
+  if (type === DiffLineType.ADDED) return selection.added.includes(lineNumber);
+  if (type === DiffLineType.REMOVED) return selection.removed.includes(lineNumber);
+  return false;
+};
+
+// 変更前の内容に、shouldApplyがtrueを返す行の変更だけを適用した内容を求める関数
+// 行番号はtoDiffHunksと同じ数え方（1始まり）で、改行コードは元の内容のまま残す
+const applyLineChanges = (
+  oldContent: string,
+  newContent: string,
+  shouldApply: (type: DiffLine['type'], lineNumber: number) => boolean
+): string => {
+  let oldLineNumber = 1;
+  let newLineNumber = 1;
+  let result = '';
+
+  const appendLine = (line: string) => {
+    // 末尾に改行がない行の後に行を追加する場合は改行を補う
+    if (result && !result.endsWith('\n')) result += '\n';
+    result += line;
+  };
+
+  diffLines(oldContent, newContent).forEach((change) => {
+    const lines = change.value.match(/[^\n]*\n|[^\n]+/g) ?? [];
+    lines.forEach((line) => {
+      if (change.added) {
+        if (shouldApply(DiffLineType.ADDED, newLineNumber)) appendLine(line);
+        newLineNumber++;
+      } else if (change.removed) {
+        if (!shouldApply(DiffLineType.REMOVED, oldLineNumber)) appendLine(line);
+        oldLineNumber++;
+      } else {
+        appendLine(line);
+        oldLineNumber++;
+        newLineNumber++;
+      }
+    });
+  });
+
+  return result;
+};
+
+export function setupGitDiffHandlers() {
+  // ファイルの差分を取得
+  ipcMain.handle(
+    'git:diff',
+    async (event, filepath: string, target: DiffTargetType): Promise<FileDiff> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      // ステージ済みの変更はHEADとインデックス、未ステージの変更はインデックスと作業ディレクトリを比較
+      // 未追跡のファイルはインデックスに存在しないため、空の内容との比較になる
+      const oldContent =
+        target === DiffTarget.STAGED
+          ? await readHeadContent(repoPath, filepath)
+          : await readIndexContent(repoPath, filepath);
+      const newContent =
+        target === DiffTarget.STAGED
+          ? await readIndexContent(repoPath, filepath)
+          : await readWorkdirContent(repoPath, filepath);
+
+      const isBinary = isBinaryContent(oldContent) || isBinaryContent(newContent);
+      return {
+        filepath,
+        target,
+        oldContent,
+        newContent,
+        hunks: isBinary ? [] : toDiffHunks(oldContent ?? '', newContent ?? ''),
+        isBinary,
+      };
+    }
+  );
+
+  // 未ステージの変更のうち、選択された行だけをステージする
+  ipcMain.handle(
+    'git:stage-lines',
+    async (event, filepath: string, selection: DiffLineSelection): Promise<void> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const indexContent = await readIndexContent(repoPath, filepath);
+      const workdirContent = await readWorkdirContent(repoPath, filepath);
+      if (isBinaryContent(indexContent) || isBinaryContent(workdirContent)) {
+        throw new Error('バイナリファイルは部分的にステージできません');
+      }
+
+      // インデックスの内容に選択された行の変更を適用したものを新しいインデックスの内容にする
+      const content = applyLineChanges(
+        indexContent ?? '',
+        workdirContent ?? '',
+        (type, lineNumber) => isLineSelected(selection, type, lineNumber)
+      );
+      // 削除されたファイルの行をすべてステージした場合は削除をステージする
+      await writeIndexContent(
+        repoPath,
+        filepath,
+        workdirContent === null && content === '' ? null : content
+      );
+    }
+  );
+
+  // ステージ済みの変更のうち、選択された行だけをステージから外す
+  ipcMain.handle(
+    'git:unstage-lines',
+    async (event, filepath: string, selection: DiffLineSelection): Promise<void> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const headContent = await readHeadContent(repoPath, filepath);
+      const indexContent = await readIndexContent(repoPath, filepath);
+      if (isBinaryContent(headContent) || isBinaryContent(indexContent)) {
+        throw new Error('バイナリファイルは部分的にステージを解除できません');
+      }
+
+      // HEADの内容に選択されていない行の変更だけを適用したものを新しいインデックスの内容にする
+      const content = applyLineChanges(
+        headContent ?? '',
+        indexContent ?? '',
+        (type, lineNumber) => !isLineSelected(selection, type, lineNumber)
+      );
+      // 新規ファイルの行をすべてステージから外した場合は未追跡の状態に戻す
+      await writeIndexContent(
+        repoPath,
+        filepath,
+        headContent === null && content === '' ? null : content
+      );
+    }
+  );
+}
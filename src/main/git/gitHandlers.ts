@@ -3,67 +3,42 @@ import { ipcMain } from 'electron';
 import path from 'path';
 // @ts-ignore
 import git from 'isomorphic-git';
-// @ts-ignore
-import http from 'isomorphic-git/http/node';
-// @ts-ignore
-import Store from 'electron-store';
-import { AppSettings } from '../../types/appSettings';
-
-const store = new Store<AppSettings>({
-  name: 'app-settings',
-});
-
-// リポジトリのパスを取得する関数
-const getRepoPath = () => {
-  const settings: AppSettings | undefined = store.get('settings');
-  return settings?.rootDirectory?.path;
-};
-
-const getGitSettings = () => {
-  const settings: AppSettings | undefined = store.get('settings');
-  return settings?.git;
+import { PullResult } from '../../types/gitPull';
+import { PushResult, PushStatus } from '../../types/gitPush';
+import { SecretFinding } from '../../types/gitSecret';
+import {
+  clearMergeState,
+  getGitSettings,
+  getRepoPath,
+  pullFromOrigin,
+  pushToRemote,
+  readMergeHead,
+} from './gitUtils';
+import { addToSecretAllowlist, assertNoStagedSecrets, scanStagedSecrets } from './secretScanner';
+import { getCachedStatusMatrix, startStatusCache } from './statusCache';
+
+// リモートに新しいコミットがあるためにプッシュが拒否されたかどうかを判定する関数
+// ローカルで判定できた場合はPushRejectedError、サーバーで拒否された場合はGitPushErrorになる
+const isNonFastForwardError = (error: unknown) => {
+  if (error instanceof git.Errors.PushRejectedError) {
+    return error.data.reason === 'not-fast-forward';
+  }
+  if (error instanceof git.Errors.GitPushError) {
+    return /non-fast-forward|fetch first/.test(error.message);
+  }
+  return false;
 };
 
 export function setupGitHandlers() {
-  // リポジトリの状態を取得
+  // ファイルの変更に合わせて状態のキャッシュを更新し、レンダラーに通知する
+  startStatusCache();
+
+  // リポジトリの状態を取得（前回の取得以降に変更されたファイルだけを取得し直す）
   ipcMain.handle('git:status', async () => {
     const repoPath = getRepoPath();
     if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
 
-    // gitignoreの内容を取得
-    const gitignorePath = path.join(repoPath, '.gitignore');
-    let gitignoreContent = '';
-    try {
-      gitignoreContent = await fs.promises.readFile(gitignorePath, 'utf-8');
-    } catch (error) {
-      // gitignoreファイルが存在しない場合は空文字列のまま
-    }
-
-    // gitignoreのパターンを配列に変換
-    const ignorePatterns = gitignoreContent
-      .split('\n')
-      .map((line) => line.trim())
-      .filter((line) => line && !line.startsWith('#'));
-
-    const status = await git.statusMatrix({
-      fs: fs,
-      dir: repoPath,
-      gitdir: path.join(repoPath, '.git'),
-      ignored: true,
-      filter: (filepath) => {
-        // gitignoreのパターンに一致するファイルを除外
-        return (
-          !ignorePatterns.some((pattern) => {
-            // シンプルなワイルドカードマッチング
-            const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-            return regex.test(filepath);
-          }) &&
-          !filepath.startsWith('.git') &&
-          !filepath.startsWith('.cursor')
-        );
-      },
-    });
-    return status;
+    return getCachedStatusMatrix(repoPath);
   });
 
   // 変更のステージング
@@ -93,13 +68,19 @@ export function setupGitHandlers() {
   });
 
   // コミット
-  ipcMain.handle('git:commit', async (event, message) => {
+  // allowedFindingsには、秘密情報として検出されたがコミットを許可する内容の識別子を指定する
+  ipcMain.handle('git:commit', async (event, message: string, allowedFindings: string[] = []) => {
     const repoPath = getRepoPath();
     if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
 
     const gitSettings = getGitSettings();
     if (!gitSettings) throw new Error('Gitの設定が設定されていません');
 
+    await assertNoStagedSecrets(repoPath, allowedFindings);
+
+    // マージ中の場合はマージ対象のコミットも親にしてマージコミットを作成
+    const mergeHead = await readMergeHead(repoPath);
+
     const sha = await git.commit({
       fs: fs,
       dir: repoPath,
@@ -109,38 +90,56 @@ export function setupGitHandlers() {
         name: gitSettings.author.name,
         email: gitSettings.author.email,
       },
+      parent: mergeHead ? ['HEAD', mergeHead] : undefined,
     });
+
+    if (mergeHead) {
+      await clearMergeState(repoPath);
+    }
     return sha;
   });
 
+  // ステージ済みの変更に含まれる秘密情報を検出
+  ipcMain.handle('git:scan-secrets', async (): Promise<SecretFinding[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    return scanStagedSecrets(repoPath);
+  });
+
+  // 検出された内容を誤検出としてリポジトリの許可リストに追加
+  ipcMain.handle('git:allow-secret', async (event, fingerprint: string) => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    await addToSecretAllowlist(repoPath, fingerprint);
+  });
+
   // プッシュ
-  ipcMain.handle('git:push', async (event) => {
+  ipcMain.handle('git:push', async (event, remote = 'origin'): Promise<PushResult> => {
     const repoPath = getRepoPath();
     if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
     const gitSettings = getGitSettings();
     if (!gitSettings) throw new Error('Gitの設定が設定されていません');
 
-    // モック実装 - 実際には isomorphic-git を使用
-    await git.push({
-      http,
-      fs: fs,
-      dir: repoPath,
-      gitdir: path.join(repoPath, '.git'),
-      remote: 'origin',
-      ref: 'main',
-      onAuth: () => ({ username: gitSettings.token }),
-    });
-
-    return true;
+    try {
+      await pushToRemote(repoPath, gitSettings, remote);
+    } catch (error) {
+      if (isNonFastForwardError(error)) {
+        return { status: PushStatus.REJECTED, remote };
+      }
+      throw error;
+    }
+    return { status: PushStatus.PUSHED, remote };
   });
 
   // プル
-  ipcMain.handle('git:pull', async (event, remoteUrl, token) => {
+  ipcMain.handle('git:pull', async (): Promise<PullResult> => {
     const repoPath = getRepoPath();
     if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+    const gitSettings = getGitSettings();
+    if (!gitSettings) throw new Error('Gitの設定が設定されていません');
 
-    // モック実装 - 実際には isomorphic-git を使用
-    console.log(`Git pull to ${repoPath} from ${remoteUrl}`);
-    return true;
+    return pullFromOrigin(repoPath, gitSettings);
   });
 }
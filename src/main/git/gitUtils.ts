@@ -0,0 +1,677 @@
+import fs from 'fs';
+import path from 'path';
+import git, { MergeResult, ReadCommitResult, Walker, WalkerEntry } from 'isomorphic-git';
+import http from 'isomorphic-git/http/node';
+// @ts-ignore
+import Store from 'electron-store';
+import {
+  AppSettings,
+  DEFAULT_COMMIT_SETTINGS,
+  DEFAULT_GITHUB_SETTINGS,
+} from '../../types/appSettings';
+import { StatusMatrix } from '../../types/gitStatus';
+import { PullResult, PullStatus } from '../../types/gitPull';
+import { RemoteCredentials } from '../../types/gitRemote';
+import { CommitSummary } from '../../types/gitLog';
+import { deleteSecret, getSecret, SecretKey, setSecret } from '../settings/secretStore';
+
+const store = new Store<AppSettings>({
+  name: 'app-settings',
+});
+
+// リポジトリのパスを取得する関数
+export const getRepoPath = () => {
+  const settings: AppSettings | undefined = store.get('settings');
+  return settings?.rootDirectory?.path;
+};
+
+// リポジトリのパスを設定する関数
+export const setRepoPath = (repoPath: string) => {
+  const settings: AppSettings | undefined = store.get('settings');
+  if (!settings) throw new Error('設定が保存されていません');
+  store.set('settings', {
+    ...settings,
+    rootDirectory: { ...settings.rootDirectory, path: repoPath },
+  });
+};
+
+type GitSettings = AppSettings['git'];
+
+export const getGitSettings = () => {
+  const settings: AppSettings | undefined = store.get('settings');
+  return settings?.git;
+};
+
+// GitHub連携の設定を取得する関数（保存されていない項目は初期値を使う）
+export const getGitHubSettings = (): AppSettings['github'] => {
+  const settings: AppSettings | undefined = store.get('settings');
+  return { ...DEFAULT_GITHUB_SETTINGS, ...settings?.github };
+};
+
+// コミットメッセージの設定を取得する関数（保存されていない項目は初期値を使う）
+export const getCommitSettings = (): AppSettings['commit'] => {
+  const settings: AppSettings | undefined = store.get('settings');
+  return { ...DEFAULT_COMMIT_SETTINGS, ...settings?.commit };
+};
+
+// Gitの設定の一部を更新する関数
+const updateGitSettings = (update: (gitSettings: GitSettings) => GitSettings) => {
+  const settings: AppSettings | undefined = store.get('settings');
+  if (!settings) throw new Error('設定が保存されていません');
+  store.set('settings', { ...settings, git: update(settings.git) });
+};
+
+// 設定のリモートURL（originのURL）を更新する関数
+export const setRemoteUrl = (remoteUrl: string) => {
+  updateGitSettings((gitSettings) => ({ ...gitSettings, remoteUrl }));
+};
+
+// リモートの認証情報を更新する関数（nullの場合は削除）
+export const setRemoteCredentials = async (
+  remote: string,
+  credentials: RemoteCredentials | null
+) => {
+  updateGitSettings((gitSettings) => {
+    const remoteCredentials = { ...gitSettings.remoteCredentials };
+    if (credentials) {
+      remoteCredentials[remote] = { username: credentials.username };
+    } else {
+      delete remoteCredentials[remote];
+    }
+    return { ...gitSettings, remoteCredentials };
+  });
+
+  if (credentials) {
+    await setSecret(SecretKey.remoteToken(remote), credentials.token);
+  } else {
+    await deleteSecret(SecretKey.remoteToken(remote));
+  }
+};
+
+// リモートの認証情報を返すコールバックを取得する関数
+// originは設定のアクセストークン、それ以外はリモートごとの認証情報を使う
+// 設定のアクセストークンを別のホストに送らないよう、認証情報のないリモートは認証を中止する
+export const getRemoteAuth = (gitSettings: GitSettings, remote: string) => async () => {
+  if (remote === 'origin') {
+    return { username: (await getSecret(SecretKey.GIT_TOKEN)) ?? '' };
+  }
+
+  const remoteToken = await getSecret(SecretKey.remoteToken(remote));
+  if (!remoteToken) return { cancel: true };
+
+  const username = gitSettings.remoteCredentials?.[remote]?.username;
+  return username ? { username: username, password: remoteToken } : { username: remoteToken };
+};
+
+// originのURLを設定のリモートURLに合わせる関数
+export const syncOriginUrl = async (repoPath: string, remoteUrl: string) => {
+  if (!remoteUrl) return;
+
+  const gitdir = path.join(repoPath, '.git');
+  const remotes = await git.listRemotes({ fs: fs, dir: repoPath, gitdir: gitdir });
+  const origin = remotes.find(({ remote }) => remote === 'origin');
+  if (origin?.url === remoteUrl) return;
+
+  await git.addRemote({
+    fs: fs,
+    dir: repoPath,
+    gitdir: gitdir,
+    remote: 'origin',
+    url: remoteUrl,
+    force: true,
+  });
+};
+
+// 2つのコミット間で変更されたファイルの一覧を取得する関数
+export const getChangedFiles = async (
+  repoPath: string,
+  fromOid: string | null,
+  toOid: string
+): Promise<string[]> => {
+  const gitdir = path.join(repoPath, '.git');
+
+  // 比較元がない場合は比較先のすべてのファイルを変更とみなす
+  if (!fromOid) {
+    return git.listFiles({ fs: fs, dir: repoPath, gitdir: gitdir, ref: toOid });
+  }
+
+  return git.walk({
+    fs: fs,
+    dir: repoPath,
+    gitdir: gitdir,
+    trees: [git.TREE({ ref: fromOid }), git.TREE({ ref: toOid })],
+    map: async (filepath: string, [from, to]: Array<WalkerEntry | null>) => {
+      if (filepath === '.') return;
+
+      const fromOidOfEntry = from ? await from.oid() : undefined;
+      const toOidOfEntry = to ? await to.oid() : undefined;
+      // 同一のオブジェクトであれば配下も含めて変更なし
+      if (fromOidOfEntry === toOidOfEntry) return null;
+
+      const fromType = from ? await from.type() : undefined;
+      const toType = to ? await to.type() : undefined;
+      // ディレクトリの場合は配下のファイルを走査する
+      if (fromType !== 'blob' && toType !== 'blob') return;
+
+      return filepath;
+    },
+  });
+};
+
+// gitignoreのパターンを読み込む関数（gitignoreファイルが存在しない場合は空の配列）
+export const readIgnorePatterns = async (repoPath: string): Promise<string[]> => {
+  const gitignorePath = path.join(repoPath, '.gitignore');
+  let gitignoreContent = '';
+  try {
+    gitignoreContent = await fs.promises.readFile(gitignorePath, 'utf-8');
+  } catch (error) {
+    // gitignoreファイルが存在しない場合は空文字列のまま
+  }
+
+  // gitignoreのパターンを配列に変換
+  return gitignoreContent
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+};
+
+// リポジトリの状態の取得から除外するファイルかどうかを判定する関数
+export const isIgnoredPath = (filepath: string, ignorePatterns: string[]) => {
+  return (
+    ignorePatterns.some((pattern) => {
+      // シンプルなワイルドカードマッチング
+      const regex = new RegExp(pattern.replace(/\*/g, '.*'));
+      return regex.test(filepath);
+    }) ||
+    filepath.startsWith('.git') ||
+    filepath.startsWith('.cursor') ||
+    filepath.startsWith('.trash')
+  );
+};
+
+// gitignoreを考慮してリポジトリの状態を取得する関数
+// filepathsを指定した場合は、そのファイルとディレクトリの配下だけを取得する
+export const getStatusMatrix = async (
+  repoPath: string,
+  filepaths?: string[],
+  ignorePatterns?: string[]
+): Promise<StatusMatrix> => {
+  const patterns = ignorePatterns ?? (await readIgnorePatterns(repoPath));
+
+  const status = await git.statusMatrix({
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    ignored: true,
+    filepaths: filepaths,
+    filter: (filepath) => !isIgnoredPath(filepath, patterns),
+  });
+  return status;
+};
+
+// 現在のブランチ名を取得する関数
+export const getCurrentBranch = async (repoPath: string): Promise<string> => {
+  const branch = await git.currentBranch({
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+  });
+  return branch || 'main';
+};
+
+// 未コミットの変更（未追跡ファイルを除く）があるファイルの一覧を取得する関数
+export const getUncommittedFiles = async (repoPath: string): Promise<string[]> => {
+  const status = await getStatusMatrix(repoPath);
+  return status
+    .filter(([, head, workdir, stage]) => {
+      // [0,2,0]: 未追跡のファイルはブランチを切り替えても失われない
+      if (head === 0 && stage === 0) return false;
+      return !(head === 1 && workdir === 1 && stage === 1);
+    })
+    .map(([filepath]) => filepath);
+};
+
+// 絶対パスをリポジトリからの相対パス（区切り文字は/）に変換する関数
+export const toRepoRelativePath = (repoPath: string, filePath: string): string => {
+  const relativePath = path.relative(repoPath, filePath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    throw new Error(`リポジトリ外のファイルです: ${filePath}`);
+  }
+  return relativePath.split(path.sep).join('/');
+};
+
+// 指定したコミットにあるファイルの内容を取得する関数（存在しない場合はnull）
+export const readCommitContent = async (repoPath: string, ref: string, filepath: string) => {
+  const gitdir = path.join(repoPath, '.git');
+  try {
+    const { blob } = await git.readBlob({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      oid: await git.resolveRef({ fs: fs, dir: repoPath, gitdir: gitdir, ref: ref }),
+      filepath: filepath,
+    });
+    return Buffer.from(blob).toString('utf-8');
+  } catch (error) {
+    if (error instanceof git.Errors.NotFoundError) return null;
+    throw error;
+  }
+};
+
+// HEADにあるファイルの内容を取得する関数（存在しない場合はnull）
+export const readHeadContent = async (repoPath: string, filepath: string) => {
+  return readCommitContent(repoPath, 'HEAD', filepath);
+};
+
+// インデックスに登録されているファイルのオブジェクトIDを取得する関数（存在しない場合はnull）
+export const readIndexOid = async (repoPath: string, filepath: string) => {
+  const oids: string[] = await git.walk({
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    trees: [git.STAGE()],
+    map: async (entryPath: string, [entry]: Array<WalkerEntry | null>) => {
+      if (entryPath === '.') return;
+      if (entryPath === filepath) return entry ? entry.oid() : undefined;
+      // 対象ファイルの親ディレクトリ以外は走査しない
+      return filepath.startsWith(`${entryPath}/`) ? undefined : null;
+    },
+  });
+  return oids[0] ?? null;
+};
+
+// インデックスに登録されているファイルの内容を取得する関数（存在しない場合はnull）
+export const readIndexContent = async (repoPath: string, filepath: string) => {
+  const oid = await readIndexOid(repoPath, filepath);
+  if (!oid) return null;
+
+  const { blob } = await git.readBlob({
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    oid: oid,
+  });
+  return Buffer.from(blob).toString('utf-8');
+};
+
+// 指定したツリーにあるファイルのモードを取得する関数（存在しない場合はnull）
+const readEntryMode = async (repoPath: string, tree: Walker, filepath: string) => {
+  const modes: number[] = await git.walk({
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    trees: [tree],
+    map: async (entryPath: string, [entry]: Array<WalkerEntry | null>) => {
+      if (entryPath === '.') return;
+      if (entryPath === filepath) return entry ? entry.mode() : undefined;
+      // 対象ファイルの親ディレクトリ以外は走査しない
+      return filepath.startsWith(`${entryPath}/`) ? undefined : null;
+    },
+  });
+  return modes[0] ?? null;
+};
+
+// インデックス、HEADの順に登録されているファイルのモードを取得する関数（新しいファイルは通常のファイル）
+const readFileMode = async (repoPath: string, filepath: string) => {
+  const indexMode = await readEntryMode(repoPath, git.STAGE(), filepath);
+  if (indexMode !== null) return indexMode;
+
+  try {
+    return (await readEntryMode(repoPath, git.TREE({ ref: 'HEAD' }), filepath)) ?? 0o100644;
+  } catch (error) {
+    // まだコミットがない場合
+    if (error instanceof git.Errors.NotFoundError) return 0o100644;
+    throw error;
+  }
+};
+
+// インデックスにファイルの内容を直接書き込む関数（nullの場合はインデックスから削除する）
+// 作業ディレクトリのファイルは変更しない（実行可能などのモードは登録済みのものを引き継ぐ）
+export const writeIndexContent = async (
+  repoPath: string,
+  filepath: string,
+  content: string | null
+) => {
+  const gitdir = path.join(repoPath, '.git');
+  if (content === null) {
+    await git.remove({ fs: fs, dir: repoPath, gitdir: gitdir, filepath: filepath });
+    return;
+  }
+
+  const oid = await git.writeBlob({
+    fs: fs,
+    dir: repoPath,
+    gitdir: gitdir,
+    blob: Buffer.from(content, 'utf-8'),
+  });
+  await git.updateIndex({
+    fs: fs,
+    dir: repoPath,
+    gitdir: gitdir,
+    filepath: filepath,
+    oid: oid,
+    mode: await readFileMode(repoPath, filepath),
+    add: true,
+  });
+};
+
+// ファイルやフォルダを移動したときに、インデックスの登録も移動先のパスに付け替える関数
+// ステージ済みの内容はそのまま引き継ぐため、コミットすると名前の変更として扱われる
+export const moveIndexEntries = async (repoPath: string, fromPath: string, toPath: string) => {
+  const gitdir = path.join(repoPath, '.git');
+  const entries: { filepath: string; oid: string; mode: number }[] = await git.walk({
+    fs: fs,
+    dir: repoPath,
+    gitdir: gitdir,
+    trees: [git.STAGE()],
+    map: async (entryPath: string, [entry]: Array<WalkerEntry | null>) => {
+      if (entryPath === '.') return;
+      if (entryPath === fromPath || entryPath.startsWith(`${fromPath}/`)) {
+        if (!entry || (await entry.type()) !== 'blob') return;
+        return { filepath: entryPath, oid: await entry.oid(), mode: await entry.mode() };
+      }
+      // 移動元の親ディレクトリ以外は走査しない
+      return fromPath.startsWith(`${entryPath}/`) ? undefined : null;
+    },
+  });
+
+  for (const entry of entries) {
+    await git.updateIndex({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      filepath: entry.filepath,
+      remove: true,
+      force: true,
+    });
+    await git.updateIndex({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      filepath: toPath + entry.filepath.slice(fromPath.length),
+      oid: entry.oid,
+      mode: entry.mode,
+      add: true,
+    });
+  }
+};
+
+// 作業ディレクトリにあるファイルの内容を取得する関数（存在しない場合はnull）
+export const readWorkdirContent = async (repoPath: string, filepath: string) => {
+  try {
+    return await fs.promises.readFile(path.join(repoPath, filepath), 'utf-8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+// インデックスからコンフリクトが解決されていないファイルの一覧を取得する関数
+// isomorphic-gitはインデックスのステージ情報を公開していないため、インデックスファイルを直接読む
+export const readUnmergedPaths = async (repoPath: string): Promise<string[]> => {
+  let buffer: Buffer;
+  try {
+    buffer = await fs.promises.readFile(path.join(repoPath, '.git', 'index'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  if (buffer.toString('utf-8', 0, 4) !== 'DIRC') {
+    throw new Error('インデックスファイルの形式が不正です');
+  }
+
+  const version = buffer.readUInt32BE(4);
+  const entryCount = buffer.readUInt32BE(8);
+  if (version > 3) throw new Error(`未対応のインデックスのバージョンです: ${version}`);
+
+  const unmergedPaths = new Set<string>();
+  let offset = 12;
+  for (let i = 0; i < entryCount; i++) {
+    // 固定長部分（62バイト）の末尾2バイトがフラグ
+    const flags = buffer.readUInt16BE(offset + 60);
+    const stage = (flags >> 12) & 0b11;
+    const isExtended = version >= 3 && (flags & 0x4000) !== 0;
+    const pathStart = offset + 62 + (isExtended ? 2 : 0);
+    const pathEnd = buffer.indexOf(0, pathStart);
+    if (stage !== 0) {
+      unmergedPaths.add(buffer.toString('utf-8', pathStart, pathEnd));
+    }
+    // エントリーは8バイト単位でNULパディングされている
+    offset += Math.ceil((pathEnd - offset + 1) / 8) * 8;
+  }
+  return Array.from(unmergedPaths);
+};
+
+// 進行中のマージの対象コミットを取得する関数（マージ中でない場合はnull）
+export const readMergeHead = async (repoPath: string): Promise<string | null> => {
+  try {
+    const mergeHead = await fs.promises.readFile(
+      path.join(repoPath, '.git', 'MERGE_HEAD'),
+      'utf-8'
+    );
+    return mergeHead.trim() || null;
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+// マージの状態を書き込む関数（コンフリクトで中断したマージを後から完了させるため）
+export const writeMergeState = async (repoPath: string, mergeHead: string, message: string) => {
+  const gitdir = path.join(repoPath, '.git');
+  await fs.promises.writeFile(path.join(gitdir, 'MERGE_HEAD'), `${mergeHead}\n`, 'utf-8');
+  await fs.promises.writeFile(path.join(gitdir, 'MERGE_MSG'), `${message}\n`, 'utf-8');
+};
+
+// マージの状態を削除する関数
+export const clearMergeState = async (repoPath: string) => {
+  const gitdir = path.join(repoPath, '.git');
+  await fs.promises.rm(path.join(gitdir, 'MERGE_HEAD'), { force: true });
+  await fs.promises.rm(path.join(gitdir, 'MERGE_MSG'), { force: true });
+};
+
+// originから指定したブランチを取得する関数
+export const fetchOrigin = async (repoPath: string, gitSettings: GitSettings, branch: string) => {
+  await syncOriginUrl(repoPath, gitSettings.remoteUrl);
+  await git.fetch({
+    http,
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    remote: 'origin',
+    ref: branch,
+    singleBranch: true,
+    onAuth: getRemoteAuth(gitSettings, 'origin'),
+  });
+};
+
+// 現在のブランチをリモートにプッシュする関数
+export const pushToRemote = async (
+  repoPath: string,
+  gitSettings: GitSettings,
+  remote = 'origin'
+) => {
+  if (remote === 'origin') {
+    await syncOriginUrl(repoPath, gitSettings.remoteUrl);
+  }
+
+  const branch = await getCurrentBranch(repoPath);
+  await git.push({
+    http,
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    remote: remote,
+    ref: branch,
+    onAuth: getRemoteAuth(gitSettings, remote),
+  });
+};
+
+// originから現在のブランチを取得して取り込む関数
+export const pullFromOrigin = async (
+  repoPath: string,
+  gitSettings: GitSettings
+): Promise<PullResult> => {
+  // 前回のマージが完了していない場合はプルしない
+  if (await readMergeHead(repoPath)) {
+    throw new Error('マージが完了していません。コンフリクトを解決してからプルしてください');
+  }
+
+  const gitdir = path.join(repoPath, '.git');
+  const branch = await getCurrentBranch(repoPath);
+  const mergeMessage = `Merge remote-tracking branch 'origin/${branch}'`;
+
+  // プル前のHEAD（コミットがまだない場合はnull）
+  let beforeOid: string | null = null;
+  try {
+    beforeOid = await git.resolveRef({ fs: fs, dir: repoPath, gitdir: gitdir, ref: 'HEAD' });
+  } catch (error) {
+    if (!(error instanceof git.Errors.NotFoundError)) throw error;
+  }
+
+  // リモートから取得（ブランチ画面で作成したブランチなど、まだプッシュしていない場合は何もしない）
+  try {
+    await fetchOrigin(repoPath, gitSettings, branch);
+  } catch (error) {
+    if (error instanceof git.Errors.NotFoundError) {
+      return { status: PullStatus.NO_REMOTE_BRANCH, changedFiles: [], conflictedFiles: [] };
+    }
+    throw error;
+  }
+  const remoteOid: string = await git.resolveRef({
+    fs: fs,
+    dir: repoPath,
+    gitdir: gitdir,
+    ref: `refs/remotes/origin/${branch}`,
+  });
+
+  // ローカルにコミットがない場合はリモートのコミットをそのまま取り込む
+  if (!beforeOid) {
+    await git.writeRef({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      ref: `refs/heads/${branch}`,
+      value: remoteOid,
+      force: true,
+    });
+    await git.checkout({ fs: fs, dir: repoPath, gitdir: gitdir, ref: branch });
+    return {
+      status: PullStatus.FAST_FORWARDED,
+      changedFiles: await getChangedFiles(repoPath, null, remoteOid),
+      conflictedFiles: [],
+    };
+  }
+
+  // リモートの変更がすでに取り込まれている場合は何もしない
+  if (
+    remoteOid === beforeOid ||
+    (await git.isDescendent({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      oid: beforeOid,
+      ancestor: remoteOid,
+      depth: -1,
+    }))
+  ) {
+    return { status: PullStatus.UP_TO_DATE, changedFiles: [], conflictedFiles: [] };
+  }
+
+  // プルで更新されるファイルに未コミットの変更がある場合は上書きしないように中止する
+  const incomingFiles = await getChangedFiles(repoPath, beforeOid, remoteOid);
+  const overwrittenFiles = (await getUncommittedFiles(repoPath)).filter((filepath) =>
+    incomingFiles.includes(filepath)
+  );
+  if (overwrittenFiles.length > 0) {
+    return {
+      status: PullStatus.UNCOMMITTED_CHANGES,
+      changedFiles: [],
+      conflictedFiles: overwrittenFiles,
+    };
+  }
+
+  // 早送りできる場合は早送り、分岐している場合はマージコミットを作成
+  let mergeResult: MergeResult;
+  try {
+    mergeResult = await git.merge({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      ours: branch,
+      theirs: `remotes/origin/${branch}`,
+      abortOnConflict: false,
+      message: mergeMessage,
+      author: {
+        name: gitSettings.author.name,
+        email: gitSettings.author.email,
+      },
+    });
+  } catch (error) {
+    if (error instanceof git.Errors.MergeConflictError) {
+      // コンフリクトした内容は作業ディレクトリとインデックスに書き込まれている
+      // 解決後にマージコミットを作成できるようにマージの状態を記録する
+      await writeMergeState(repoPath, remoteOid, mergeMessage);
+      return {
+        status: PullStatus.CONFLICTED,
+        changedFiles: await getChangedFiles(repoPath, beforeOid, remoteOid),
+        conflictedFiles: error.data.filepaths,
+      };
+    }
+    throw error;
+  }
+
+  // マージ結果を作業ディレクトリに反映
+  await git.checkout({ fs: fs, dir: repoPath, gitdir: gitdir, ref: branch });
+
+  return {
+    status: mergeResult.fastForward ? PullStatus.FAST_FORWARDED : PullStatus.MERGED,
+    changedFiles: await getChangedFiles(repoPath, beforeOid, mergeResult.oid),
+    conflictedFiles: [],
+  };
+};
+
+// isomorphic-gitのコミットを履歴の表示用の形式に変換する関数
+export const toCommitSummary = ({ oid, commit }: ReadCommitResult): CommitSummary => ({
+  oid,
+  parents: commit.parent,
+  message: commit.message,
+  author: {
+    name: commit.author.name,
+    email: commit.author.email,
+  },
+  timestamp: commit.author.timestamp * 1000,
+});
+
+// コミットがいずれかのリモートのブランチに含まれている（プッシュ済み）かどうかを判定する関数
+export const isCommitPushed = async (repoPath: string, oid: string) => {
+  const gitdir = path.join(repoPath, '.git');
+  const remotes = await git.listRemotes({ fs: fs, dir: repoPath, gitdir: gitdir });
+
+  for (const { remote } of remotes) {
+    const branches = await git.listBranches({ fs: fs, dir: repoPath, gitdir: gitdir, remote });
+    for (const branch of branches) {
+      if (branch === 'HEAD') continue;
+      const remoteOid = await git.resolveRef({
+        fs: fs,
+        dir: repoPath,
+        gitdir: gitdir,
+        ref: `refs/remotes/${remote}/${branch}`,
+      });
+      if (
+        remoteOid === oid ||
+        (await git.isDescendent({
+          fs: fs,
+          dir: repoPath,
+          gitdir: gitdir,
+          oid: remoteOid,
+          ancestor: oid,
+          depth: -1,
+        }))
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
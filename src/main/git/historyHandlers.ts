@@ -0,0 +1,98 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import {
+  CommitChange,
+  CommitChangeType,
+  CommitSummary,
+  LogOptions,
+  LogPage,
+} from '../../types/gitLog';
+import {
+  getChangedFiles,
+  getRepoPath,
+  readCommitContent,
+  toCommitSummary,
+  toRepoRelativePath,
+} from './gitUtils';
+
+const DEFAULT_LOG_LIMIT = 30;
+
+export function setupGitHistoryHandlers() {
+  // コミット履歴を取得
+  ipcMain.handle('git:log', async (event, options: LogOptions = {}): Promise<LogPage> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const skip = options.skip ?? 0;
+    const limit = options.limit ?? DEFAULT_LOG_LIMIT;
+
+    let commits;
+    try {
+      // 次のページの有無を判定するために1件多く取得する
+      commits = await git.log({
+        fs: fs,
+        dir: repoPath,
+        gitdir: path.join(repoPath, '.git'),
+        ref: 'HEAD',
+        filepath: options.filePath ? toRepoRelativePath(repoPath, options.filePath) : undefined,
+        depth: skip + limit + 1,
+        force: true,
+        follow: true,
+      });
+    } catch (error) {
+      // コミットがまだ存在しない場合は空の履歴を返す
+      if (error instanceof git.Errors.NotFoundError) {
+        return { commits: [], hasMore: false };
+      }
+      throw error;
+    }
+
+    const page: CommitSummary[] = commits.slice(skip, skip + limit).map(toCommitSummary);
+    return { commits: page, hasMore: commits.length > skip + limit };
+  });
+
+  // 指定したコミット時点のファイル内容を取得
+  ipcMain.handle('git:read-file-at-commit', async (event, oid: string, filePath: string) => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const { blob } = await git.readBlob({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      oid: oid,
+      filepath: toRepoRelativePath(repoPath, filePath),
+    });
+    return Buffer.from(blob).toString('utf-8');
+  });
+
+  // コミットで変更されたファイルの一覧を取得
+  ipcMain.handle('git:commit-changes', async (event, oid: string): Promise<CommitChange[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const { commit } = await git.readCommit({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      oid: oid,
+    });
+    // マージコミットの場合は最初の親との差分を表示する
+    const parentOid = commit.parent[0] ?? null;
+    const filepaths = await getChangedFiles(repoPath, parentOid, oid);
+
+    return Promise.all(
+      filepaths.map(async (filepath) => {
+        if ((await readCommitContent(repoPath, oid, filepath)) === null) {
+          return { filepath, type: CommitChangeType.DELETED };
+        }
+        if (!parentOid || (await readCommitContent(repoPath, parentOid, filepath)) === null) {
+          return { filepath, type: CommitChangeType.ADDED };
+        }
+        return { filepath, type: CommitChangeType.MODIFIED };
+      })
+    );
+  });
+}
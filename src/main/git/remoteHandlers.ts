@@ -0,0 +1,114 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { RemoteCredentials, RemoteEntry } from '../../types/gitRemote';
+import {
+  getGitSettings,
+  getRepoPath,
+  setRemoteCredentials,
+  setRemoteUrl,
+  syncOriginUrl,
+} from './gitUtils';
+import { hasSecret, SecretKey } from '../settings/secretStore';
+
+// リモートの一覧を取得する関数
+const listRemotes = async (repoPath: string) => {
+  return git.listRemotes({ fs: fs, dir: repoPath, gitdir: path.join(repoPath, '.git') });
+};
+
+export function setupGitRemoteHandlers() {
+  // リモートの一覧を取得
+  ipcMain.handle('git:list-remotes', async (): Promise<RemoteEntry[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+    const gitSettings = getGitSettings();
+
+    // originは設定のリモートURLに合わせてから返す
+    if (gitSettings?.remoteUrl) {
+      await syncOriginUrl(repoPath, gitSettings.remoteUrl);
+    }
+
+    const remotes = await listRemotes(repoPath);
+    return Promise.all(
+      remotes.map(async ({ remote, url }) => ({
+        remote,
+        url,
+        hasCredentials: await hasSecret(
+          remote === 'origin' ? SecretKey.GIT_TOKEN : SecretKey.remoteToken(remote)
+        ),
+      }))
+    );
+  });
+
+  // リモートを追加
+  ipcMain.handle(
+    'git:add-remote',
+    async (event, remote: string, url: string, credentials?: RemoteCredentials) => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const remotes = await listRemotes(repoPath);
+      if (remotes.some((entry) => entry.remote === remote)) {
+        throw new Error(`リモート ${remote} は既に存在します`);
+      }
+
+      await git.addRemote({
+        fs: fs,
+        dir: repoPath,
+        gitdir: path.join(repoPath, '.git'),
+        remote: remote,
+        url: url,
+      });
+
+      if (remote === 'origin') {
+        setRemoteUrl(url);
+      } else if (credentials) {
+        await setRemoteCredentials(remote, credentials);
+      }
+    }
+  );
+
+  // リモートのURLと認証情報を更新（credentialsがundefinedの場合は変更しない、nullの場合は削除）
+  ipcMain.handle(
+    'git:update-remote',
+    async (event, remote: string, url: string, credentials?: RemoteCredentials | null) => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      await git.addRemote({
+        fs: fs,
+        dir: repoPath,
+        gitdir: path.join(repoPath, '.git'),
+        remote: remote,
+        url: url,
+        force: true,
+      });
+
+      // originの認証情報は設定のアクセストークンを使う
+      if (remote === 'origin') {
+        setRemoteUrl(url);
+      } else if (credentials !== undefined) {
+        await setRemoteCredentials(remote, credentials);
+      }
+    }
+  );
+
+  // リモートを削除
+  ipcMain.handle('git:remove-remote', async (event, remote: string) => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    if (remote === 'origin') {
+      throw new Error('originは設定のリモートURLと同期しているため削除できません');
+    }
+
+    await git.deleteRemote({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      remote: remote,
+    });
+    await setRemoteCredentials(remote, null);
+  });
+}
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { resolveNotePath } from '../fileSystem/pathResolver';
+import { getRepoPath, readCommitContent, toRepoRelativePath } from './gitUtils';
+
+export function setupGitRestoreHandlers() {
+  // ファイルをHEADまたは指定したコミットの内容に戻す（インデックスと作業ディレクトリの両方）
+  // filepathsは絶対パスまたはリポジトリからの相対パス。戻したファイルの相対パスを返す
+  ipcMain.handle(
+    'git:restore-files',
+    async (event, filepaths: string[], ref = 'HEAD'): Promise<string[]> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const gitdir = path.join(repoPath, '.git');
+      // ルートディレクトリの外（シンボリックリンクによる参照を含む）や.gitディレクトリの配下は拒否する
+      const relativePaths: string[] = [];
+      for (const filepath of filepaths) {
+        if (typeof filepath !== 'string') throw new Error(`不正なパスです: ${String(filepath)}`);
+        const absolutePath = await resolveNotePath(path.resolve(repoPath, filepath));
+        relativePaths.push(toRepoRelativePath(repoPath, absolutePath));
+      }
+
+      // 指定したコミットに存在するファイルと存在しないファイルに分ける
+      const existing: string[] = [];
+      const missing: string[] = [];
+      for (const filepath of relativePaths) {
+        const content = await readCommitContent(repoPath, ref, filepath);
+        (content === null ? missing : existing).push(filepath);
+      }
+
+      if (missing.length > 0 && ref !== 'HEAD') {
+        throw new Error(`このコミットには ${missing.join(', ')} が存在しません`);
+      }
+
+      if (existing.length > 0) {
+        await git.checkout({
+          fs: fs,
+          dir: repoPath,
+          gitdir: gitdir,
+          ref: ref,
+          filepaths: existing,
+          force: true,
+          // ブランチは切り替えずにファイルだけを戻す
+          noUpdateHead: true,
+        });
+      }
+
+      // HEADに存在しないファイル（新規ファイル）は変更を破棄すると削除される
+      for (const filepath of missing) {
+        await fs.promises.rm(path.join(repoPath, filepath), { force: true });
+        await git.remove({ fs: fs, dir: repoPath, gitdir: gitdir, filepath: filepath });
+      }
+
+      return relativePaths;
+    }
+  );
+}
@@ -0,0 +1,215 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { diffLines } from 'diff';
+import { SecretFinding, SecretRule, SecretRuleType } from '../../types/gitSecret';
+import { getStatusMatrix, readHeadContent, readIndexContent } from './gitUtils';
+
+// 誤検出を許可する内容を列挙するファイル（リポジトリのルートに置く）
+// 1行に1つの正規表現を書き、検出した文字列に一致したものは無視する。#で始まる行はコメント
+export const SECRET_ALLOWLIST_FILE = '.secretsallow';
+
+// ランダムな文字列とみなす長さとエントロピー（1文字あたりのビット数）の下限
+const MIN_ENTROPY_LENGTH = 24;
+const MIN_ENTROPY_BITS = 4.0;
+
+// 種類ごとの検出パターン（キャプチャグループがある場合はその部分を検出した文字列とする）
+const SECRET_PATTERNS: { rule: SecretRuleType; pattern: RegExp }[] = [
+  { rule: SecretRule.PRIVATE_KEY, pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----/g },
+  { rule: SecretRule.AWS_ACCESS_KEY, pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    rule: SecretRule.GITHUB_TOKEN,
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  { rule: SecretRule.SLACK_TOKEN, pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { rule: SecretRule.GOOGLE_API_KEY, pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    rule: SecretRule.API_SECRET_KEY,
+    pattern: /\b(?:sk|rk)[-_](?:live_|test_)?[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    rule: SecretRule.JWT,
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    rule: SecretRule.PASSWORD,
+    pattern:
+      /(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?token|token|パスワード)[*_"']*\s*[:=：]\s*[*_"'`]*([^\s*_"'`]{6,})/gi,
+  },
+];
+
+// パスワードの例として書かれることが多い値（伏せ字やプレースホルダー）
+const PLACEHOLDER_PATTERN = /^(?:\*+|x+|\.+|<[^>]*>|\$\{?\w+\}?|\{\{[^}]*\}\})$/i;
+
+// 検出した内容と、許可リストとの照合に使う検出した文字列
+type DetectedSecret = {
+  finding: SecretFinding;
+  match: string;
+};
+
+// 文字列のシャノンエントロピー（1文字あたりのビット数）を求める関数
+const calculateEntropy = (text: string) => {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / text.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+};
+
+// 英大文字・英小文字・数字がすべて含まれ、十分にランダムな文字列かどうかを判定する関数
+const isHighEntropy = (text: string) => {
+  if (!/[A-Z]/.test(text) || !/[a-z]/.test(text) || !/[0-9]/.test(text)) return false;
+  return calculateEntropy(text) >= MIN_ENTROPY_BITS;
+};
+
+// 検出した文字列の先頭だけを残して伏せる関数
+const maskSecret = (text: string) => {
+  const visible = text.slice(0, 4);
+  return `${visible}${'*'.repeat(Math.min(Math.max(text.length - visible.length, 4), 12))}`;
+};
+
+const createFingerprint = (filepath: string, rule: SecretRuleType, match: string) => {
+  return createHash('sha256').update(`${filepath}\n${rule}\n${match}`).digest('hex').slice(0, 16);
+};
+
+// 1行の中から秘密情報の可能性がある文字列を検出する関数
+const scanLine = (text: string): { rule: SecretRuleType; match: string }[] => {
+  const results: { rule: SecretRuleType; match: string }[] = [];
+  // 種類が特定できた範囲は、ランダムな文字列として重ねて検出しない
+  const coveredRanges: [number, number][] = [];
+
+  for (const { rule, pattern } of SECRET_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[1] ?? match[0];
+      if (rule === SecretRule.PASSWORD && PLACEHOLDER_PATTERN.test(value)) continue;
+      results.push({ rule, match: value });
+      coveredRanges.push([match.index ?? 0, (match.index ?? 0) + match[0].length]);
+    }
+  }
+
+  const tokenPattern = new RegExp(`[A-Za-z0-9+/_=-]{${MIN_ENTROPY_LENGTH},}`, 'g');
+  for (const match of text.matchAll(tokenPattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (coveredRanges.some(([from, to]) => start < to && from < end)) continue;
+    if (isHighEntropy(match[0])) {
+      results.push({ rule: SecretRule.HIGH_ENTROPY, match: match[0] });
+    }
+  }
+
+  return results;
+};
+
+// 正規表現で特別な意味を持つ文字をエスケープする関数
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 許可リストの正規表現を読み込む関数（正規表現として不正な行は文字列として扱う）
+const readAllowlist = async (repoPath: string): Promise<RegExp[]> => {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path.join(repoPath, SECRET_ALLOWLIST_FILE), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => {
+      try {
+        return new RegExp(line);
+      } catch {
+        return new RegExp(escapeRegExp(line));
+      }
+    });
+};
+
+// ステージ済みの変更のうち、HEADから追加された行に含まれる秘密情報を検出する関数
+const detectStagedSecrets = async (repoPath: string): Promise<DetectedSecret[]> => {
+  const allowlist = await readAllowlist(repoPath);
+  const detected: DetectedSecret[] = [];
+
+  for (const [filepath, head, , stage] of await getStatusMatrix(repoPath)) {
+    // 削除や変更のないファイル、許可リスト自体は対象外
+    if (head === stage || stage === 0 || filepath === SECRET_ALLOWLIST_FILE) continue;
+
+    const content = await readIndexContent(repoPath, filepath);
+    // バイナリファイルは対象外
+    if (!content || content.includes('\u0000')) continue;
+    const headContent = (await readHeadContent(repoPath, filepath)) ?? '';
+
+    let lineNumber = 0;
+    diffLines(headContent, content).forEach((change) => {
+      if (change.removed) return;
+      const lines = change.value.split('\n');
+      if (lines[lines.length - 1] === '') lines.pop();
+
+      for (const line of lines) {
+        lineNumber++;
+        if (!change.added) continue;
+
+        for (const { rule, match } of scanLine(line)) {
+          if (allowlist.some((pattern) => pattern.test(match))) continue;
+          detected.push({
+            finding: {
+              filepath,
+              line: lineNumber,
+              rule,
+              preview: maskSecret(match),
+              fingerprint: createFingerprint(filepath, rule, match),
+            },
+            match,
+          });
+        }
+      }
+    });
+  }
+
+  return detected;
+};
+
+// ステージ済みの変更に含まれる秘密情報を検出する関数（許可リストに一致するものは除く）
+export const scanStagedSecrets = async (repoPath: string): Promise<SecretFinding[]> => {
+  return (await detectStagedSecrets(repoPath)).map(({ finding }) => finding);
+};
+
+// 許可されていない秘密情報がステージ済みの変更に含まれている場合にエラーを投げる関数
+export const assertNoStagedSecrets = async (repoPath: string, allowedFingerprints: string[]) => {
+  const findings = (await scanStagedSecrets(repoPath)).filter(
+    (finding) => !allowedFingerprints.includes(finding.fingerprint)
+  );
+  if (findings.length > 0) {
+    const locations = findings.map((finding) => `${finding.filepath}:${finding.line}`).join(', ');
+    throw new Error(`秘密情報の可能性がある内容が含まれているためコミットできません: ${locations}`);
+  }
+};
+
+// 検出した文字列を許可リストに追加する関数
+export const addToSecretAllowlist = async (repoPath: string, fingerprint: string) => {
+  const target = (await detectStagedSecrets(repoPath)).find(
+    ({ finding }) => finding.fingerprint === fingerprint
+  );
+  if (!target) throw new Error('許可する内容が見つかりません');
+
+  const allowlistPath = path.join(repoPath, SECRET_ALLOWLIST_FILE);
+  const existing = fs.existsSync(allowlistPath)
+    ? await fs.promises.readFile(allowlistPath, 'utf-8')
+    : null;
+  const prefix =
+    existing === null
+      ? '# コミット前の秘密情報の検出で無視する内容（1行に1つの正規表現）\n'
+      : existing === '' || existing.endsWith('\n')
+        ? ''
+        : '\n';
+  await fs.promises.appendFile(
+    allowlistPath,
+    `${prefix}# ${target.finding.filepath}:${target.finding.line}\n^${escapeRegExp(target.match)}$\n`,
+    'utf-8'
+  );
+};
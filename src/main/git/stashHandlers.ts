@@ -0,0 +1,152 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { StashEntry } from '../../types/gitStash';
+import {
+  getGitSettings,
+  getRepoPath,
+  getStatusMatrix,
+  getUncommittedFiles,
+  readMergeHead,
+} from './gitUtils';
+
+// "stash@{0}: メッセージ: 1234567 コミットメッセージ" の形式からメッセージを取り出す
+const STASH_ENTRY_PATTERN = /^stash@\{(\d+)\}: (.*?)(?:: [0-9a-f]{7} .*)?$/s;
+
+// isomorphic-gitのスタッシュは作成者をリポジトリの設定から読むため、未設定の場合はアプリの設定を書き込む
+const ensureAuthorConfig = async (repoPath: string) => {
+  const gitSettings = getGitSettings();
+  if (!gitSettings) throw new Error('Gitの設定が設定されていません');
+
+  const gitdir = path.join(repoPath, '.git');
+  const name = await git.getConfig({ fs: fs, dir: repoPath, gitdir: gitdir, path: 'user.name' });
+  const email = await git.getConfig({ fs: fs, dir: repoPath, gitdir: gitdir, path: 'user.email' });
+  if (!name) {
+    await git.setConfig({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      path: 'user.name',
+      value: gitSettings.author.name,
+    });
+  }
+  if (!email) {
+    await git.setConfig({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      path: 'user.email',
+      value: gitSettings.author.email,
+    });
+  }
+};
+
+// 退避した変更を作業ディレクトリに戻せるかを確認する関数
+// isomorphic-gitは未コミットの変更を上書きしてしまうため、変更がない場合のみ戻す
+const assertCleanWorkdir = async (repoPath: string) => {
+  if (await readMergeHead(repoPath)) {
+    throw new Error('マージ中は退避した変更を戻せません');
+  }
+  if ((await getUncommittedFiles(repoPath)).length > 0) {
+    throw new Error('未コミットの変更があるため、退避した変更を戻せません');
+  }
+};
+
+export function setupGitStashHandlers() {
+  // 退避した変更の一覧を取得
+  ipcMain.handle('git:stash-list', async (): Promise<StashEntry[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const entries = (await git.stash({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      op: 'list',
+    })) as unknown as string[];
+
+    return entries.map((entry, index) => {
+      const match = entry.match(STASH_ENTRY_PATTERN);
+      return { index, message: match ? match[2] : entry };
+    });
+  });
+
+  // 未コミットの変更（未追跡のファイルを含む）を退避する。退避したファイルの相対パスを返す
+  ipcMain.handle('git:stash-save', async (event, message?: string): Promise<string[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const gitdir = path.join(repoPath, '.git');
+    if (await readMergeHead(repoPath)) {
+      throw new Error('マージ中は変更を退避できません');
+    }
+    await ensureAuthorConfig(repoPath);
+
+    // 未追跡のファイルは退避の対象にならないため、先にステージする
+    const statusMatrix = await getStatusMatrix(repoPath);
+    const untrackedFiles = statusMatrix
+      .filter(([, head, workdir, stage]) => head === 0 && workdir === 2 && stage === 0)
+      .map(([filepath]) => filepath);
+    for (const filepath of untrackedFiles) {
+      await git.add({ fs: fs, dir: repoPath, gitdir: gitdir, filepath: filepath });
+    }
+    const stashedFiles = await getUncommittedFiles(repoPath);
+    if (stashedFiles.length === 0) throw new Error('退避する変更がありません');
+
+    await git.stash({
+      fs: fs,
+      dir: repoPath,
+      gitdir: gitdir,
+      op: 'push',
+      message: message?.trim() ?? '',
+    });
+    return stashedFiles;
+  });
+
+  // 退避した変更を作業ディレクトリに戻す（一覧には残す）。変更されたファイルの相対パスを返す
+  ipcMain.handle('git:stash-apply', async (event, index: number): Promise<string[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    await assertCleanWorkdir(repoPath);
+    await git.stash({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      op: 'apply',
+      refIdx: index,
+    });
+    return getUncommittedFiles(repoPath);
+  });
+
+  // 退避した変更を作業ディレクトリに戻し、一覧から削除する。変更されたファイルの相対パスを返す
+  ipcMain.handle('git:stash-pop', async (event, index: number): Promise<string[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    await assertCleanWorkdir(repoPath);
+    await git.stash({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      op: 'pop',
+      refIdx: index,
+    });
+    return getUncommittedFiles(repoPath);
+  });
+
+  // 退避した変更を削除する
+  ipcMain.handle('git:stash-drop', async (event, index: number): Promise<void> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    await git.stash({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      op: 'drop',
+      refIdx: index,
+    });
+  });
+}
@@ -0,0 +1,176 @@
+import fs from 'fs';
+import { BrowserWindow } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { StatusChange, StatusMatrix, StatusRow } from '../../types/gitStatus';
+import { onFileChange, watchDirectory } from '../fileSystem/fileWatcher';
+import {
+  getRepoPath,
+  getStatusMatrix,
+  isIgnoredPath,
+  readIgnorePatterns,
+  toRepoRelativePath,
+} from './gitUtils';
+
+// 一度に取得し直すファイル数の上限（超えた場合はすべて取得し直す）
+const MAX_PARTIAL_REFRESH_PATHS = 200;
+
+type StatusCache = {
+  repoPath: string;
+  // 取得したときのインデックスとHEADの状態（Gitの操作で変わった場合はすべて取得し直す）
+  stamp: string;
+  ignorePatterns: string[];
+  rows: Map<string, StatusRow>;
+};
+
+let cache: StatusCache | null = null;
+// 前回の取得以降に変更されたファイルとディレクトリ（リポジトリからの相対パス）
+let dirtyPaths = new Set<string>();
+// 状態の取得を順番に実行するためのキュー
+let queue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+// インデックスとHEADの状態を表す文字列を取得する関数
+const readRepositoryStamp = async (repoPath: string) => {
+  const gitdir = path.join(repoPath, '.git');
+
+  let index = 'none';
+  try {
+    const stats = await fs.promises.stat(path.join(gitdir, 'index'));
+    index = `${stats.mtimeMs}:${stats.size}`;
+  } catch (error) {
+    // インデックスがまだ作成されていない場合
+  }
+
+  let head = 'none';
+  try {
+    head = await git.resolveRef({ fs: fs, dir: repoPath, gitdir: gitdir, ref: 'HEAD' });
+  } catch (error) {
+    // コミットがまだ存在しない場合
+    if (!(error instanceof git.Errors.NotFoundError)) throw error;
+  }
+
+  return `${index}:${head}`;
+};
+
+const isSameRows = (a: Map<string, StatusRow>, b: Map<string, StatusRow>) => {
+  if (a.size !== b.size) return false;
+  for (const [filepath, [, head, workdir, stage]] of a) {
+    const row = b.get(filepath);
+    if (!row || row[1] !== head || row[2] !== workdir || row[3] !== stage) return false;
+  }
+  return true;
+};
+
+const toStatusMatrix = (rows: Map<string, StatusRow>): StatusMatrix => {
+  return [...rows.values()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+};
+
+type RefreshResult = {
+  // ファイルの状態が変わったかどうか
+  statusChanged: boolean;
+  // HEADやインデックスが変わったかどうか
+  repositoryChanged: boolean;
+};
+
+// 変更されたファイルの状態を取得し直す関数
+const refreshStatus = async (repoPath: string): Promise<RefreshResult> => {
+  const paths = [...dirtyPaths];
+  dirtyPaths = new Set();
+
+  const repositoryChanged =
+    !cache || cache.repoPath !== repoPath || cache.stamp !== (await readRepositoryStamp(repoPath));
+  if (
+    repositoryChanged ||
+    paths.includes('.gitignore') ||
+    paths.length > MAX_PARTIAL_REFRESH_PATHS
+  ) {
+    const previousRows = cache?.repoPath === repoPath ? cache.rows : null;
+    const ignorePatterns = await readIgnorePatterns(repoPath);
+    const matrix = await getStatusMatrix(repoPath, undefined, ignorePatterns);
+    cache = {
+      repoPath,
+      // 状態の取得でインデックスのキャッシュ情報が更新されることがあるため、取得後に記録する
+      stamp: await readRepositoryStamp(repoPath),
+      ignorePatterns,
+      rows: new Map(matrix.map((row) => [row[0], row])),
+    };
+    return {
+      statusChanged: !previousRows || !isSameRows(previousRows, cache.rows),
+      repositoryChanged,
+    };
+  }
+
+  const { ignorePatterns, rows } = cache;
+  const targets = paths.filter((filepath) => !isIgnoredPath(filepath, ignorePatterns));
+  if (targets.length === 0) return { statusChanged: false, repositoryChanged: false };
+
+  const updated = await getStatusMatrix(repoPath, targets, ignorePatterns);
+  const nextRows = new Map(rows);
+  // 対象のファイルとディレクトリの配下は、取得し直した結果で置き換える
+  for (const filepath of rows.keys()) {
+    if (targets.some((target) => filepath === target || filepath.startsWith(`${target}/`))) {
+      nextRows.delete(filepath);
+    }
+  }
+  updated.forEach((row) => nextRows.set(row[0], row));
+
+  cache = { ...cache, stamp: await readRepositoryStamp(repoPath), rows: nextRows };
+  return { statusChanged: !isSameRows(rows, nextRows), repositoryChanged: false };
+};
+
+// 状態が変わったことをすべてのウィンドウに通知する関数
+const broadcastStatus = (change: StatusChange) => {
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('git:status-changed', change);
+  });
+};
+
+// ファイルが変更されたときに、そのファイルの状態だけを取得し直して通知する
+const handleFileChange = (filePaths: string[]) => {
+  const repoPath = getRepoPath();
+  if (!repoPath) return;
+
+  for (const filePath of filePaths) {
+    try {
+      const relativePath = toRepoRelativePath(repoPath, filePath);
+      if (relativePath) dirtyPaths.add(relativePath);
+    } catch (error) {
+      // リポジトリ外のファイルは無視する
+    }
+  }
+  // まだ状態が取得されていない場合は、最初の取得ですべて取得する
+  if (dirtyPaths.size === 0 || cache?.repoPath !== repoPath) return;
+
+  enqueue(async () => {
+    const { statusChanged, repositoryChanged } = await refreshStatus(repoPath);
+    // 外部でのコミットなどでファイルの状態が変わらなくても、HEADが変わった場合は通知する
+    if (statusChanged || repositoryChanged) {
+      broadcastStatus({
+        statusMatrix: toStatusMatrix(cache?.rows ?? new Map()),
+        repositoryChanged,
+      });
+    }
+  }).catch((error) => console.error('Error refreshing git status:', error));
+};
+
+// キャッシュを使ってリポジトリの状態を取得する関数（変更されたファイルだけを取得し直す）
+export const getCachedStatusMatrix = (repoPath: string): Promise<StatusMatrix> => {
+  // 外部のエディターなどによる変更も反映できるようにリポジトリを監視する
+  watchDirectory(repoPath);
+
+  return enqueue(async () => {
+    await refreshStatus(repoPath);
+    return toStatusMatrix(cache?.rows ?? new Map());
+  });
+};
+
+// ファイルの変更の購読を開始する関数（起動時に1回だけ呼び出す）
+export const startStatusCache = () => {
+  onFileChange(handleFileChange);
+};
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { SyncResult, SyncStatus } from '../../types/gitSync';
+import { PullStatus } from '../../types/gitPull';
+import {
+  getGitSettings,
+  getRepoPath,
+  getStatusMatrix,
+  pullFromOrigin,
+  pushToRemote,
+  readMergeHead,
+  readUnmergedPaths,
+} from './gitUtils';
+import { scanStagedSecrets } from './secretScanner';
+
+// コミットメッセージに列挙するファイル数の上限
+const MAX_LISTED_FILES = 3;
+
+// 自動同期のコミットメッセージを生成する関数
+const generateSyncMessage = (filepaths: string[]) => {
+  const names = filepaths.slice(0, MAX_LISTED_FILES).map((filepath) => path.basename(filepath));
+  const rest = filepaths.length - names.length;
+  return `Sync ${filepaths.length} ${filepaths.length === 1 ? 'note' : 'notes'}: ${names.join(', ')}${
+    rest > 0 ? ` and ${rest} more` : ''
+  }`;
+};
+
+// コミットが1つ以上あるかどうかを判定する関数
+const hasHeadCommit = async (repoPath: string) => {
+  try {
+    await git.resolveRef({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      ref: 'HEAD',
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof git.Errors.NotFoundError) return false;
+    throw error;
+  }
+};
+
+export function setupGitSyncHandlers() {
+  // 変更をすべてコミットし、プルしてからプッシュする
+  ipcMain.handle('git:sync', async (): Promise<SyncResult> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+    const gitSettings = getGitSettings();
+    if (!gitSettings) throw new Error('Gitの設定が設定されていません');
+
+    const gitdir = path.join(repoPath, '.git');
+
+    // コンフリクトの解決中は何もしない
+    if (await readMergeHead(repoPath)) {
+      return {
+        status: SyncStatus.CONFLICTED,
+        commitOid: null,
+        changedFiles: [],
+        conflictedFiles: await readUnmergedPaths(repoPath),
+        secretFindings: [],
+      };
+    }
+
+    // 作業ディレクトリの変更をすべてステージング
+    const statusMatrix = await getStatusMatrix(repoPath);
+    for (const [filepath, , workTree, stage] of statusMatrix) {
+      if (workTree === stage) continue;
+      if (workTree === 0) {
+        await git.remove({ fs: fs, dir: repoPath, gitdir: gitdir, filepath: filepath });
+      } else {
+        await git.add({ fs: fs, dir: repoPath, gitdir: gitdir, filepath: filepath });
+      }
+    }
+
+    // HEADと差分のあるファイルがあればコミット
+    const stagedFiles = (await getStatusMatrix(repoPath))
+      .filter(([, head, , stage]) => head !== stage)
+      .map(([filepath]) => filepath);
+    let commitOid: string | null = null;
+    if (stagedFiles.length > 0) {
+      // 秘密情報を含む変更は自動ではコミットしない（コミット画面で確認してもらう）
+      const secretFindings = await scanStagedSecrets(repoPath);
+      if (secretFindings.length > 0) {
+        return {
+          status: SyncStatus.SECRETS_DETECTED,
+          commitOid: null,
+          changedFiles: [],
+          conflictedFiles: [],
+          secretFindings,
+        };
+      }
+
+      commitOid = await git.commit({
+        fs: fs,
+        dir: repoPath,
+        gitdir: gitdir,
+        message: generateSyncMessage(stagedFiles),
+        author: {
+          name: gitSettings.author.name,
+          email: gitSettings.author.email,
+        },
+      });
+    }
+
+    const pullResult = await pullFromOrigin(repoPath, gitSettings);
+    switch (pullResult.status) {
+      case PullStatus.CONFLICTED:
+        return {
+          status: SyncStatus.CONFLICTED,
+          commitOid,
+          changedFiles: pullResult.changedFiles,
+          conflictedFiles: pullResult.conflictedFiles,
+          secretFindings: [],
+        };
+      case PullStatus.UNCOMMITTED_CHANGES:
+        // 変更はすべてコミット済みのため通常は発生しないが、取り込めていない状態ではプッシュしない
+        throw new Error(
+          `未コミットの変更が上書きされるため同期を中止しました: ${pullResult.conflictedFiles.join(', ')}`
+        );
+      case PullStatus.NO_REMOTE_BRANCH:
+        // リモートにまだないブランチは、コミットがあればプッシュして作成する
+        if (!(await hasHeadCommit(repoPath))) {
+          return {
+            status: SyncStatus.SYNCED,
+            commitOid,
+            changedFiles: [],
+            conflictedFiles: [],
+            secretFindings: [],
+          };
+        }
+        break;
+      case PullStatus.UP_TO_DATE:
+      case PullStatus.FAST_FORWARDED:
+      case PullStatus.MERGED:
+        break;
+    }
+
+    await pushToRemote(repoPath, gitSettings);
+
+    return {
+      status: SyncStatus.SYNCED,
+      commitOid,
+      changedFiles: pullResult.changedFiles,
+      conflictedFiles: [],
+      secretFindings: [],
+    };
+  });
+}
@@ -0,0 +1,227 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import http from 'isomorphic-git/http/node';
+import { SnapshotEntry, TagEntry } from '../../types/gitTag';
+import {
+  getGitSettings,
+  getRemoteAuth,
+  getRepoPath,
+  readCommitContent,
+  syncOriginUrl,
+} from './gitUtils';
+
+// タグが指しているコミットと、注釈付きタグの場合はその内容を取得する関数
+const readTagEntry = async (repoPath: string, name: string): Promise<TagEntry> => {
+  const gitdir = path.join(repoPath, '.git');
+  const oid = await git.resolveRef({
+    fs: fs,
+    dir: repoPath,
+    gitdir: gitdir,
+    ref: `refs/tags/${name}`,
+  });
+
+  try {
+    const { tag } = await git.readTag({ fs: fs, dir: repoPath, gitdir: gitdir, oid: oid });
+    return {
+      name,
+      commitOid: tag.object,
+      isAnnotated: true,
+      message: tag.message.trim(),
+      timestamp: tag.tagger.timestamp * 1000,
+    };
+  } catch (error) {
+    // 軽量タグはコミットを直接指している
+    if (!(error instanceof git.Errors.ObjectTypeError)) throw error;
+    const { commit } = await git.readCommit({ fs: fs, dir: repoPath, gitdir: gitdir, oid: oid });
+    return {
+      name,
+      commitOid: oid,
+      isAnnotated: false,
+      message: null,
+      timestamp: commit.author.timestamp * 1000,
+    };
+  }
+};
+
+// タグを指定したリモートにプッシュまたはリモートから削除する関数
+const pushTagRef = async (repoPath: string, name: string, remote: string, isDelete: boolean) => {
+  const gitSettings = getGitSettings();
+  if (!gitSettings) throw new Error('Gitの設定が設定されていません');
+  if (remote === 'origin') {
+    await syncOriginUrl(repoPath, gitSettings.remoteUrl);
+  }
+
+  await git.push({
+    http,
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    remote: remote,
+    ref: `refs/tags/${name}`,
+    remoteRef: `refs/tags/${name}`,
+    delete: isDelete,
+    onAuth: getRemoteAuth(gitSettings, remote),
+  });
+};
+
+export function setupGitTagHandlers() {
+  // タグの一覧を新しい順に取得
+  ipcMain.handle('git:list-tags', async (): Promise<TagEntry[]> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    const names = await git.listTags({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+    });
+    const tags = await Promise.all(names.map((name) => readTagEntry(repoPath, name)));
+    return tags.sort((a, b) => b.timestamp - a.timestamp);
+  });
+
+  // コミットにタグを作成する（メッセージを指定した場合は注釈付きタグ）
+  ipcMain.handle(
+    'git:create-tag',
+    async (event, name: string, oid = 'HEAD', message?: string): Promise<TagEntry> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const gitdir = path.join(repoPath, '.git');
+      const object = await git.resolveRef({ fs: fs, dir: repoPath, gitdir: gitdir, ref: oid });
+
+      if (message?.trim()) {
+        const gitSettings = getGitSettings();
+        if (!gitSettings) throw new Error('Gitの設定が設定されていません');
+
+        await git.annotatedTag({
+          fs: fs,
+          dir: repoPath,
+          gitdir: gitdir,
+          ref: name,
+          object: object,
+          message: message.trim(),
+          tagger: {
+            name: gitSettings.author.name,
+            email: gitSettings.author.email,
+          },
+        });
+      } else {
+        await git.tag({ fs: fs, dir: repoPath, gitdir: gitdir, ref: name, object: object });
+      }
+
+      return readTagEntry(repoPath, name);
+    }
+  );
+
+  // タグをリモートにプッシュ
+  ipcMain.handle('git:push-tag', async (event, name: string, remote = 'origin') => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    await pushTagRef(repoPath, name, remote, false);
+  });
+
+  // タグを削除（deleteRemoteがtrueの場合はリモートのタグも削除する）
+  ipcMain.handle(
+    'git:delete-tag',
+    async (event, name: string, deleteRemote: boolean, remote = 'origin') => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      if (deleteRemote) {
+        await pushTagRef(repoPath, name, remote, true);
+      }
+      await git.deleteTag({
+        fs: fs,
+        dir: repoPath,
+        gitdir: path.join(repoPath, '.git'),
+        ref: name,
+      });
+    }
+  );
+
+  // タグの時点のディレクトリの内容を取得（dirPathはリポジトリからの相対パス、ルートの場合は空文字列）
+  ipcMain.handle(
+    'git:list-snapshot',
+    async (event, tagName: string, dirPath = ''): Promise<SnapshotEntry[]> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const { commitOid } = await readTagEntry(repoPath, tagName);
+      const { tree } = await git.readTree({
+        fs: fs,
+        dir: repoPath,
+        gitdir: path.join(repoPath, '.git'),
+        oid: commitOid,
+        filepath: dirPath || undefined,
+      });
+
+      return tree
+        .filter((entry) => entry.type === 'tree' || entry.type === 'blob')
+        .map((entry) => ({
+          name: entry.path,
+          path: dirPath ? `${dirPath}/${entry.path}` : entry.path,
+          isDirectory: entry.type === 'tree',
+        }))
+        .sort((a, b) => {
+          // ディレクトリを先に表示する
+          if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
+          return a.name.localeCompare(b.name);
+        });
+    }
+  );
+
+  // タグの時点のファイルの内容を取得（filepathはリポジトリからの相対パス）
+  ipcMain.handle(
+    'git:read-snapshot-file',
+    async (event, tagName: string, filepath: string): Promise<string> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const { commitOid } = await readTagEntry(repoPath, tagName);
+      const content = await readCommitContent(repoPath, commitOid, filepath);
+      if (content === null) throw new Error(`${filepath} はスナップショットに存在しません`);
+      return content;
+    }
+  );
+
+  // タグの時点のファイルをすべて指定したディレクトリに書き出す。書き出したディレクトリのパスを返す
+  ipcMain.handle(
+    'git:export-snapshot',
+    async (event, tagName: string, destination: string): Promise<string> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+      const outputPath = path.join(
+        destination,
+        `${path.basename(repoPath)}-${tagName.replace(/\//g, '-')}`
+      );
+      if (fs.existsSync(outputPath)) {
+        throw new Error(`${outputPath} はすでに存在します`);
+      }
+
+      // 作業ディレクトリを切り替えずに、タグの時点のツリーから直接書き出す
+      const { commitOid } = await readTagEntry(repoPath, tagName);
+      await git.walk({
+        fs: fs,
+        dir: repoPath,
+        gitdir: path.join(repoPath, '.git'),
+        trees: [git.TREE({ ref: commitOid })],
+        map: async (filepath, [entry]) => {
+          if (!entry || filepath === '.') return;
+          if ((await entry.type()) !== 'blob') return;
+
+          const content = await entry.content();
+          if (!content) return;
+          const outputFile = path.join(outputPath, ...filepath.split('/'));
+          await fs.promises.mkdir(path.dirname(outputFile), { recursive: true });
+          await fs.promises.writeFile(outputFile, content);
+        },
+      });
+
+      return outputPath;
+    }
+  );
+}
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import { ipcMain } from 'electron';
+import path from 'path';
+import git from 'isomorphic-git';
+import { TrackingStatus } from '../../types/gitTracking';
+import { fetchOrigin, getCurrentBranch, getGitSettings, getRepoPath } from './gitUtils';
+
+// 参照が指すコミットを取得する関数（存在しない場合はnull）
+const resolveOid = async (repoPath: string, ref: string) => {
+  try {
+    return await git.resolveRef({
+      fs: fs,
+      dir: repoPath,
+      gitdir: path.join(repoPath, '.git'),
+      ref: ref,
+    });
+  } catch (error) {
+    if (error instanceof git.Errors.NotFoundError) return null;
+    throw error;
+  }
+};
+
+// fromから親をたどり、stopOidsに到達するまでのコミット数を数える関数
+const countCommitsUntil = async (repoPath: string, from: string, stopOids: string[]) => {
+  const gitdir = path.join(repoPath, '.git');
+  const visited = new Set<string>(stopOids);
+  // 数えるだけで順序は問わないため、スタックで深さ優先にたどる
+  const stack = [from];
+  let count = 0;
+
+  while (stack.length > 0) {
+    const oid = stack.pop() as string;
+    if (visited.has(oid)) continue;
+    visited.add(oid);
+    count++;
+
+    const { commit } = await git.readCommit({ fs: fs, dir: repoPath, gitdir: gitdir, oid: oid });
+    stack.push(...commit.parent);
+  }
+
+  return count;
+};
+
+// 現在のブランチと上流ブランチの差分のコミット数を求める関数
+const getTrackingStatus = async (repoPath: string): Promise<TrackingStatus> => {
+  const branch = await getCurrentBranch(repoPath);
+  const upstream = `origin/${branch}`;
+
+  // 上流ブランチがない場合は比較しない（履歴全体をたどることになるため数えない）
+  const remoteOid = await resolveOid(repoPath, `refs/remotes/${upstream}`);
+  if (!remoteOid) {
+    return { branch, upstream: null, ahead: 0, behind: 0 };
+  }
+  const localOid = await resolveOid(repoPath, `refs/heads/${branch}`);
+  if (!localOid) {
+    return { branch, upstream, ahead: 0, behind: await countCommitsUntil(repoPath, remoteOid, []) };
+  }
+
+  const mergeBases = await git.findMergeBase({
+    fs: fs,
+    dir: repoPath,
+    gitdir: path.join(repoPath, '.git'),
+    oids: [localOid, remoteOid],
+  });
+  return {
+    branch,
+    upstream,
+    ahead: await countCommitsUntil(repoPath, localOid, mergeBases),
+    behind: await countCommitsUntil(repoPath, remoteOid, mergeBases),
+  };
+};
+
+export function setupGitTrackingHandlers() {
+  // 上流ブランチとの差分のコミット数を取得（リモートへの問い合わせは行わない）
+  ipcMain.handle('git:tracking-status', async (): Promise<TrackingStatus> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    return getTrackingStatus(repoPath);
+  });
+
+  // originから現在のブランチを取得し、上流ブランチとの差分のコミット数を返す
+  ipcMain.handle('git:fetch', async (): Promise<TrackingStatus> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+    const gitSettings = getGitSettings();
+    if (!gitSettings) throw new Error('Gitの設定が設定されていません');
+
+    try {
+      await fetchOrigin(repoPath, gitSettings, await getCurrentBranch(repoPath));
+    } catch (error) {
+      // リモートにまだブランチがない場合は取得済みの状態で比較する
+      if (!(error instanceof git.Errors.NotFoundError)) throw error;
+    }
+    return getTrackingStatus(repoPath);
+  });
+}
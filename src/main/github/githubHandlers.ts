@@ -0,0 +1,51 @@
+import { ipcMain } from 'electron';
+import { GitHubRepository, PullRequestInfo, PullRequestStatus } from '../../types/github';
+import {
+  getCurrentBranch,
+  getGitSettings,
+  getRepoPath,
+  pushToRemote,
+  setRemoteUrl,
+  syncOriginUrl,
+} from '../git/gitUtils';
+import { createPrivateRepository, createPullRequest, getPullRequestStatus } from './githubService';
+
+export function setupGitHubHandlers() {
+  // プライベートリポジトリを作成し、リモートURL（origin）に設定
+  ipcMain.handle(
+    'github:create-repository',
+    async (event, name: string, description = ''): Promise<GitHubRepository> => {
+      const repository = await createPrivateRepository(name, description);
+
+      setRemoteUrl(repository.cloneUrl);
+      const repoPath = getRepoPath();
+      if (repoPath) {
+        await syncOriginUrl(repoPath, repository.cloneUrl);
+      }
+      return repository;
+    }
+  );
+
+  // 現在のブランチをプッシュしてプルリクエストを作成
+  ipcMain.handle(
+    'github:create-pull-request',
+    async (event, title: string, body = ''): Promise<PullRequestInfo> => {
+      const repoPath = getRepoPath();
+      if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+      const gitSettings = getGitSettings();
+      if (!gitSettings) throw new Error('Gitの設定が設定されていません');
+
+      const branch = await getCurrentBranch(repoPath);
+      await pushToRemote(repoPath, gitSettings);
+      return createPullRequest(branch, title, body);
+    }
+  );
+
+  // 現在のブランチのプルリクエストを取得
+  ipcMain.handle('github:pull-request-status', async (): Promise<PullRequestStatus> => {
+    const repoPath = getRepoPath();
+    if (!repoPath) throw new Error('リポジトリのパスが設定されていません');
+
+    return getPullRequestStatus(await getCurrentBranch(repoPath));
+  });
+}
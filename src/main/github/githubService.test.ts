@@ -0,0 +1,253 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PullRequestState } from '../../types/github';
+
+const settings = vi.hoisted(() => ({
+  token: 'test-token' as string | null,
+  remoteUrl: 'https://github.com/owner/repo.git',
+  apiBaseUrl: '',
+}));
+
+vi.mock('../settings/secretStore', () => ({
+  SecretKey: { GIT_TOKEN: 'git-token' },
+  getSecret: async () => settings.token,
+}));
+
+vi.mock('../git/gitUtils', () => ({
+  getGitSettings: () => ({ remoteUrl: settings.remoteUrl }),
+  getGitHubSettings: () => ({ apiBaseUrl: settings.apiBaseUrl }),
+}));
+
+import {
+  createPullRequest,
+  getPullRequestStatus,
+  isGitHubPageUrl,
+  parseRepositoryUrl,
+} from './githubService';
+
+type RecordedRequest = {
+  method: string;
+  url: string;
+  authorization: string | undefined;
+  body: unknown;
+};
+
+type StubResponse = { status: number; body: unknown };
+
+// GitHubのAPIの代わりに、登録した応答を返してリクエストを記録するサーバー
+const requests: RecordedRequest[] = [];
+let routes: Record<string, StubResponse> = {};
+
+const server = http.createServer((req, res) => {
+  let data = '';
+  req.on('data', (chunk) => (data += chunk));
+  req.on('end', () => {
+    requests.push({
+      method: req.method ?? '',
+      url: req.url ?? '',
+      authorization: req.headers.authorization,
+      body: data ? JSON.parse(data) : undefined,
+    });
+
+    const pathname = new URL(req.url ?? '', 'http://localhost').pathname;
+    const route = routes[`${req.method} ${pathname}`] ?? {
+      status: 404,
+      body: { message: 'Not Found' },
+    };
+    res.writeHead(route.status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(route.body));
+  });
+});
+
+const pullRequest = (overrides: Record<string, unknown> = {}) => ({
+  number: 12,
+  title: 'ノートを追加',
+  state: 'open',
+  draft: false,
+  merged_at: null as string | null,
+  html_url: 'https://github.com/owner/repo/pull/12',
+  base: { ref: 'main' },
+  ...overrides,
+});
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  settings.apiBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  settings.token = 'test-token';
+  settings.remoteUrl = 'https://github.com/owner/repo.git';
+  requests.length = 0;
+  routes = {
+    'GET /repos/owner/repo': { status: 200, body: { default_branch: 'main' } },
+  };
+});
+
+describe('parseRepositoryUrl', () => {
+  it('HTTPSとSSHのリモートURLから所有者と名前を取り出す', () => {
+    expect(parseRepositoryUrl('https://github.com/owner/repo.git')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+    });
+    expect(parseRepositoryUrl('git@github.com:owner/repo.git')).toEqual({
+      owner: 'owner',
+      repo: 'repo',
+    });
+  });
+
+  it('リポジトリを特定できない場合はエラーを投げる', () => {
+    expect(() => parseRepositoryUrl('repo')).toThrow();
+  });
+});
+
+describe('isGitHubPageUrl', () => {
+  it('GitHubのhttpsのページを許可する', () => {
+    expect(isGitHubPageUrl('https://github.com/owner/repo/pull/12')).toBe(true);
+  });
+
+  it('設定のリモートURLのホスト（GitHub Enterprise）を許可する', () => {
+    settings.remoteUrl = 'git@ghe.example.com:owner/repo.git';
+    expect(isGitHubPageUrl('https://ghe.example.com/owner/repo/pull/12')).toBe(true);
+
+    settings.remoteUrl = 'https://ghe.example.com/owner/repo.git';
+    expect(isGitHubPageUrl('https://ghe.example.com/owner/repo/pull/12')).toBe(true);
+  });
+
+  it('https以外のURLや別のホストを拒否する', () => {
+    expect(isGitHubPageUrl('http://github.com/owner/repo/pull/12')).toBe(false);
+    expect(isGitHubPageUrl('file:///etc/passwd')).toBe(false);
+    expect(isGitHubPageUrl('custom-app://open')).toBe(false);
+    expect(isGitHubPageUrl('https://example.com/owner/repo')).toBe(false);
+    expect(isGitHubPageUrl('https://github.com@example.com/owner/repo')).toBe(false);
+    expect(isGitHubPageUrl('not a url')).toBe(false);
+  });
+});
+
+describe('createPullRequest', () => {
+  it('マージ先を省略した場合はデフォルトブランチに作成する', async () => {
+    routes['POST /repos/owner/repo/pulls'] = { status: 201, body: pullRequest() };
+
+    const result = await createPullRequest('feature', 'ノートを追加', '本文');
+
+    expect(result).toEqual({
+      number: 12,
+      title: 'ノートを追加',
+      state: PullRequestState.OPEN,
+      draft: false,
+      htmlUrl: 'https://github.com/owner/repo/pull/12',
+      base: 'main',
+    });
+    const created = requests.find((request) => request.method === 'POST');
+    expect(created?.body).toEqual({
+      head: 'feature',
+      base: 'main',
+      title: 'ノートを追加',
+      body: '本文',
+    });
+  });
+
+  it('マージ先を指定した場合はリポジトリの情報を取得しない', async () => {
+    routes['POST /repos/owner/repo/pulls'] = {
+      status: 201,
+      body: pullRequest({ draft: true, base: { ref: 'develop' } }),
+    };
+
+    const result = await createPullRequest('feature', 'ノートを追加', '', 'develop');
+
+    expect(result.base).toBe('develop');
+    expect(result.draft).toBe(true);
+    expect(requests.map((request) => request.method)).toEqual(['POST']);
+  });
+
+  it('設定のアクセストークンで認証する', async () => {
+    routes['POST /repos/owner/repo/pulls'] = { status: 201, body: pullRequest() };
+
+    await createPullRequest('feature', 'ノートを追加', '');
+
+    expect(requests.length).toBeGreaterThan(0);
+    requests.forEach((request) => expect(request.authorization).toBe('token test-token'));
+  });
+
+  it('アクセストークンが設定されていない場合はリクエストせずにエラーを投げる', async () => {
+    settings.token = null;
+
+    await expect(createPullRequest('feature', 'ノートを追加', '')).rejects.toThrow(
+      'アクセストークンが設定されていません'
+    );
+    expect(requests).toHaveLength(0);
+  });
+
+  it('APIがエラーを返した場合はステータスを含むエラーを投げる', async () => {
+    routes['POST /repos/owner/repo/pulls'] = {
+      status: 422,
+      body: { message: 'Validation Failed' },
+    };
+
+    await expect(createPullRequest('feature', 'ノートを追加', '')).rejects.toMatchObject({
+      status: 422,
+    });
+  });
+});
+
+describe('getPullRequestStatus', () => {
+  it('ブランチから作成された最新のプルリクエストを取得する', async () => {
+    routes['GET /repos/owner/repo/pulls'] = { status: 200, body: [pullRequest()] };
+
+    const result = await getPullRequestStatus('feature');
+
+    expect(result).toEqual({
+      defaultBranch: 'main',
+      pullRequest: {
+        number: 12,
+        title: 'ノートを追加',
+        state: PullRequestState.OPEN,
+        draft: false,
+        htmlUrl: 'https://github.com/owner/repo/pull/12',
+        base: 'main',
+      },
+    });
+    const listed = requests.find((request) => request.url.startsWith('/repos/owner/repo/pulls'));
+    const query = new URL(listed?.url ?? '', 'http://localhost').searchParams;
+    expect(query.get('head')).toBe('owner:feature');
+    expect(query.get('state')).toBe('all');
+  });
+
+  it('マージ済みと閉じたプルリクエストの状態を判定する', async () => {
+    routes['GET /repos/owner/repo/pulls'] = {
+      status: 200,
+      body: [pullRequest({ state: 'closed', merged_at: '2025-01-01T00:00:00Z' })],
+    };
+    expect((await getPullRequestStatus('feature')).pullRequest?.state).toBe(
+      PullRequestState.MERGED
+    );
+
+    routes['GET /repos/owner/repo/pulls'] = {
+      status: 200,
+      body: [pullRequest({ state: 'closed' })],
+    };
+    expect((await getPullRequestStatus('feature')).pullRequest?.state).toBe(
+      PullRequestState.CLOSED
+    );
+  });
+
+  it('プルリクエストがない場合はnullを返す', async () => {
+    routes['GET /repos/owner/repo/pulls'] = { status: 200, body: [] };
+
+    expect(await getPullRequestStatus('feature')).toEqual({
+      defaultBranch: 'main',
+      pullRequest: null,
+    });
+  });
+
+  it('認証に失敗した場合はエラーを投げる', async () => {
+    routes['GET /repos/owner/repo'] = { status: 401, body: { message: 'Bad credentials' } };
+
+    await expect(getPullRequestStatus('feature')).rejects.toMatchObject({ status: 401 });
+  });
+});
@@ -0,0 +1,138 @@
+import { getGitSettings, getGitHubSettings } from '../git/gitUtils';
+import { getSecret, SecretKey } from '../settings/secretStore';
+import {
+  GitHubRepository,
+  PullRequestInfo,
+  PullRequestState,
+  PullRequestStatus,
+} from '../../types/github';
+
+// リモートURLからリポジトリの所有者と名前を取り出す関数
+// https://github.com/owner/repo.git や git@github.com:owner/repo.git の形式に対応
+export const parseRepositoryUrl = (remoteUrl: string) => {
+  const match = remoteUrl.match(/[/:]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/);
+  if (!match) throw new Error(`リモートURLからリポジトリを特定できません: ${remoteUrl}`);
+  return { owner: match[1], repo: match[2] };
+};
+
+// リモートURLからホスト名を取り出す関数（https://host/... や git@host:... の形式に対応）
+const parseRemoteHost = (remoteUrl: string) => {
+  try {
+    return new URL(remoteUrl).hostname.toLowerCase();
+  } catch {
+    return remoteUrl.match(/^[^@/]+@([^:/]+):/)?.[1].toLowerCase() ?? null;
+  }
+};
+
+// ブラウザで開いてよいURLかどうかを判定する関数
+// GitHub（GitHub Enterpriseの場合は設定のリモートURLのホスト）のhttpsのページのみ許可する
+export const isGitHubPageUrl = (url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'https:') return false;
+
+  const hostname = parsed.hostname.toLowerCase();
+  const remoteUrl = getGitSettings()?.remoteUrl;
+  return hostname === 'github.com' || (!!remoteUrl && hostname === parseRemoteHost(remoteUrl));
+};
+
+// 設定のAPIのURLとアクセストークンでGitHubのクライアントを作成する関数
+const createClient = async () => {
+  const token = await getSecret(SecretKey.GIT_TOKEN);
+  if (!token) throw new Error('アクセストークンが設定されていません');
+
+  // @octokit/restはESモジュールのみで提供されているため動的に読み込む
+  const { Octokit } = await import('@octokit/rest');
+  return new Octokit({ auth: token, baseUrl: getGitHubSettings().apiBaseUrl });
+};
+
+// 設定のリモートURLが指すリポジトリを取得する関数
+const getCurrentRepository = () => {
+  const remoteUrl = getGitSettings()?.remoteUrl;
+  if (!remoteUrl) throw new Error('リモートURLが設定されていません');
+  return parseRepositoryUrl(remoteUrl);
+};
+
+// 認証されたユーザーのプライベートリポジトリを作成する関数
+export const createPrivateRepository = async (
+  name: string,
+  description: string
+): Promise<GitHubRepository> => {
+  const octokit = await createClient();
+  const { data } = await octokit.repos.createForAuthenticatedUser({
+    name,
+    description,
+    private: true,
+  });
+  return { fullName: data.full_name, htmlUrl: data.html_url, cloneUrl: data.clone_url };
+};
+
+// ブランチからプルリクエストを作成する関数（マージ先を省略した場合はデフォルトブランチ）
+export const createPullRequest = async (
+  branch: string,
+  title: string,
+  body: string,
+  base?: string
+): Promise<PullRequestInfo> => {
+  const octokit = await createClient();
+  const { owner, repo } = getCurrentRepository();
+
+  const baseBranch = base ?? (await octokit.repos.get({ owner, repo })).data.default_branch;
+  const { data } = await octokit.pulls.create({
+    owner,
+    repo,
+    head: branch,
+    base: baseBranch,
+    title,
+    body,
+  });
+  return {
+    number: data.number,
+    title: data.title,
+    state: PullRequestState.OPEN,
+    draft: !!data.draft,
+    htmlUrl: data.html_url,
+    base: data.base.ref,
+  };
+};
+
+// ブランチから作成された最新のプルリクエストとデフォルトブランチを取得する関数
+export const getPullRequestStatus = async (branch: string): Promise<PullRequestStatus> => {
+  const octokit = await createClient();
+  const { owner, repo } = getCurrentRepository();
+
+  const { data: repository } = await octokit.repos.get({ owner, repo });
+  const { data } = await octokit.pulls.list({
+    owner,
+    repo,
+    head: `${owner}:${branch}`,
+    state: 'all',
+    sort: 'created',
+    direction: 'desc',
+    per_page: 1,
+  });
+  const pullRequest = data[0];
+  if (!pullRequest) {
+    return { defaultBranch: repository.default_branch, pullRequest: null };
+  }
+
+  return {
+    defaultBranch: repository.default_branch,
+    pullRequest: {
+      number: pullRequest.number,
+      title: pullRequest.title,
+      state: pullRequest.merged_at
+        ? PullRequestState.MERGED
+        : pullRequest.state === 'open'
+          ? PullRequestState.OPEN
+          : PullRequestState.CLOSED,
+      draft: !!pullRequest.draft,
+      htmlUrl: pullRequest.html_url,
+      base: pullRequest.base.ref,
+    },
+  };
+};
@@ -1,4 +1,4 @@
-import { app, BrowserWindow } from 'electron';
+import { app, BrowserWindow, shell } from 'electron';
 import path from 'node:path';
 // @ts-ignore
 import started from 'electron-squirrel-startup';
@@ -6,6 +6,21 @@ import { setupAppSettingsHandlers } from './settings/settingsHandlers';
 import { setupDialogHandlers } from './dialog/dialogHandlers';
 import { setupFileSystemHandlers } from './fileSystem/fileSystemHandlers';
 import { setupGitHandlers } from './git/gitHandlers';
+import { setupGitBranchHandlers } from './git/branchHandlers';
+import { setupGitHistoryHandlers } from './git/historyHandlers';
+import { setupGitCommitHandlers } from './git/commitHandlers';
+import { setupGitBlameHandlers } from './git/blameHandlers';
+import { setupGitDiffHandlers } from './git/diffHandlers';
+import { setupGitConflictHandlers } from './git/conflictHandlers';
+import { setupGitCloneHandlers } from './git/cloneHandlers';
+import { setupGitSyncHandlers } from './git/syncHandlers';
+import { setupGitRestoreHandlers } from './git/restoreHandlers';
+import { setupGitStashHandlers } from './git/stashHandlers';
+import { setupGitTagHandlers } from './git/tagHandlers';
+import { setupGitRemoteHandlers } from './git/remoteHandlers';
+import { setupGitTrackingHandlers } from './git/trackingHandlers';
+import { setupGitHubHandlers } from './github/githubHandlers';
+import { isGitHubPageUrl } from './github/githubService';
 import { setupExportHandlers } from './export/exportHandler';
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
@@ -34,6 +49,17 @@ const createWindow = () => {
     mainWindow.loadFile(path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`));
   }
 
+  // プルリクエストなどの外部リンクはブラウザで開く
+  // file:やカスタムプロトコルなどを開かないよう、GitHubのページ以外は開かない
+  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+    if (isGitHubPageUrl(url)) {
+      shell.openExternal(url);
+    } else {
+      console.warn('外部リンクを開けませんでした:', url);
+    }
+    return { action: 'deny' };
+  });
+
   // Open the DevTools.
   mainWindow.webContents.openDevTools();
 };
@@ -47,6 +73,20 @@ app.on('ready', () => {
   setupDialogHandlers();
   setupFileSystemHandlers();
   setupGitHandlers();
+  setupGitBranchHandlers();
+  setupGitHistoryHandlers();
+  setupGitCommitHandlers();
+  setupGitBlameHandlers();
+  setupGitDiffHandlers();
+  setupGitConflictHandlers();
+  setupGitCloneHandlers();
+  setupGitSyncHandlers();
+  setupGitRestoreHandlers();
+  setupGitStashHandlers();
+  setupGitTagHandlers();
+  setupGitRemoteHandlers();
+  setupGitTrackingHandlers();
+  setupGitHubHandlers();
   setupExportHandlers();
 });
 
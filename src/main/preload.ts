@@ -3,6 +3,11 @@
 
 import { contextBridge, ipcRenderer } from 'electron';
 import { AppSettings } from '../types/appSettings';
+import { LogOptions } from '../types/gitLog';
+import { DiffLineSelection, DiffTargetType } from '../types/gitDiff';
+import { CloneProgress } from '../types/gitClone';
+import { StatusChange } from '../types/gitStatus';
+import { RemoteCredentials } from '../types/gitRemote';
 
 // レンダラープロセスに公開するAPI
 contextBridge.exposeInMainWorld('api', {
@@ -10,6 +15,7 @@ contextBridge.exposeInMainWorld('api', {
   app: {
     getSettings: () => ipcRenderer.invoke('app:get-settings'),
     setSettings: (settings: AppSettings) => ipcRenderer.invoke('app:set-settings', settings),
+    setToken: (token: string | null) => ipcRenderer.invoke('app:set-token', token),
   },
 
   // ダイアログ操作
@@ -37,6 +43,21 @@ contextBridge.exposeInMainWorld('api', {
     renameDirectory: (dirPath: string, newName: string) =>
       ipcRenderer.invoke('fs:rename-directory', dirPath, newName),
     removeDirectory: (dirPath: string) => ipcRenderer.invoke('fs:remove-directory', dirPath),
+    move: (sourcePath: string, targetDirPath: string) =>
+      ipcRenderer.invoke('fs:move', sourcePath, targetDirPath),
+    moveToTrash: (filePath: string) => ipcRenderer.invoke('fs:move-to-trash', filePath),
+    listTrash: () => ipcRenderer.invoke('fs:list-trash'),
+    restoreFromTrash: (id: string) => ipcRenderer.invoke('fs:restore-from-trash', id),
+    purgeTrash: (id?: string) => ipcRenderer.invoke('fs:purge-trash', id),
+    // ルートディレクトリ配下のファイルの変更（外部での変更を含む）を購読する（戻り値の関数で購読を解除）
+    onFilesChanged: (callback: (filePaths: string[]) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, filePaths: string[]) =>
+        callback(filePaths);
+      ipcRenderer.on('fs:files-changed', listener);
+      return () => {
+        ipcRenderer.removeListener('fs:files-changed', listener);
+      };
+    },
   },
 
   // エクスポート
@@ -49,10 +70,98 @@ contextBridge.exposeInMainWorld('api', {
   git: {
     add: (filepath: string) => ipcRenderer.invoke('git:add', filepath),
     unstage: (filepath: string) => ipcRenderer.invoke('git:unstage', filepath),
-    commit: (message: string, author: { name: string; email: string }) =>
-      ipcRenderer.invoke('git:commit', message, author),
-    push: () => ipcRenderer.invoke('git:push'),
+    commit: (message: string, allowedFindings?: string[]) =>
+      ipcRenderer.invoke('git:commit', message, allowedFindings),
+    lastCommit: () => ipcRenderer.invoke('git:last-commit'),
+    amendCommit: (message?: string, allowedFindings?: string[]) =>
+      ipcRenderer.invoke('git:amend-commit', message, allowedFindings),
+    undoCommit: () => ipcRenderer.invoke('git:undo-commit'),
+    revertCommit: (oid: string) => ipcRenderer.invoke('git:revert-commit', oid),
+    generateCommitMessage: () => ipcRenderer.invoke('git:generate-commit-message'),
+    scanSecrets: () => ipcRenderer.invoke('git:scan-secrets'),
+    allowSecret: (fingerprint: string) => ipcRenderer.invoke('git:allow-secret', fingerprint),
+    push: (remote?: string) => ipcRenderer.invoke('git:push', remote),
     pull: () => ipcRenderer.invoke('git:pull'),
+    fetch: () => ipcRenderer.invoke('git:fetch'),
+    trackingStatus: () => ipcRenderer.invoke('git:tracking-status'),
     status: () => ipcRenderer.invoke('git:status'),
+    listBranches: () => ipcRenderer.invoke('git:list-branches'),
+    createBranch: (name: string, checkout: boolean) =>
+      ipcRenderer.invoke('git:create-branch', name, checkout),
+    checkoutBranch: (name: string, force: boolean) =>
+      ipcRenderer.invoke('git:checkout-branch', name, force),
+    renameBranch: (oldName: string, newName: string) =>
+      ipcRenderer.invoke('git:rename-branch', oldName, newName),
+    deleteBranch: (name: string) => ipcRenderer.invoke('git:delete-branch', name),
+    log: (options?: LogOptions) => ipcRenderer.invoke('git:log', options),
+    readFileAtCommit: (oid: string, filePath: string) =>
+      ipcRenderer.invoke('git:read-file-at-commit', oid, filePath),
+    commitChanges: (oid: string) => ipcRenderer.invoke('git:commit-changes', oid),
+    blame: (filePath: string) => ipcRenderer.invoke('git:blame', filePath),
+    restoreFiles: (filepaths: string[], ref?: string) =>
+      ipcRenderer.invoke('git:restore-files', filepaths, ref),
+    diff: (filepath: string, target: DiffTargetType) =>
+      ipcRenderer.invoke('git:diff', filepath, target),
+    stageLines: (filepath: string, selection: DiffLineSelection) =>
+      ipcRenderer.invoke('git:stage-lines', filepath, selection),
+    unstageLines: (filepath: string, selection: DiffLineSelection) =>
+      ipcRenderer.invoke('git:unstage-lines', filepath, selection),
+    listTags: () => ipcRenderer.invoke('git:list-tags'),
+    createTag: (name: string, oid?: string, message?: string) =>
+      ipcRenderer.invoke('git:create-tag', name, oid, message),
+    pushTag: (name: string, remote?: string) => ipcRenderer.invoke('git:push-tag', name, remote),
+    deleteTag: (name: string, deleteRemote: boolean, remote?: string) =>
+      ipcRenderer.invoke('git:delete-tag', name, deleteRemote, remote),
+    listSnapshot: (tagName: string, dirPath?: string) =>
+      ipcRenderer.invoke('git:list-snapshot', tagName, dirPath),
+    readSnapshotFile: (tagName: string, filepath: string) =>
+      ipcRenderer.invoke('git:read-snapshot-file', tagName, filepath),
+    exportSnapshot: (tagName: string, destination: string) =>
+      ipcRenderer.invoke('git:export-snapshot', tagName, destination),
+    stashList: () => ipcRenderer.invoke('git:stash-list'),
+    stashSave: (message?: string) => ipcRenderer.invoke('git:stash-save', message),
+    stashApply: (index: number) => ipcRenderer.invoke('git:stash-apply', index),
+    stashPop: (index: number) => ipcRenderer.invoke('git:stash-pop', index),
+    stashDrop: (index: number) => ipcRenderer.invoke('git:stash-drop', index),
+    mergeState: () => ipcRenderer.invoke('git:merge-state'),
+    getConflict: (filepath: string) => ipcRenderer.invoke('git:get-conflict', filepath),
+    resolveConflict: (filepath: string, content: string) =>
+      ipcRenderer.invoke('git:resolve-conflict', filepath, content),
+    abortMerge: () => ipcRenderer.invoke('git:abort-merge'),
+    listRemotes: () => ipcRenderer.invoke('git:list-remotes'),
+    addRemote: (remote: string, url: string, credentials?: RemoteCredentials) =>
+      ipcRenderer.invoke('git:add-remote', remote, url, credentials),
+    updateRemote: (remote: string, url: string, credentials?: RemoteCredentials | null) =>
+      ipcRenderer.invoke('git:update-remote', remote, url, credentials),
+    removeRemote: (remote: string) => ipcRenderer.invoke('git:remove-remote', remote),
+    sync: () => ipcRenderer.invoke('git:sync'),
+    clone: (dirPath: string) => ipcRenderer.invoke('git:clone', dirPath),
+    // ファイルの変更によるリポジトリの状態の変化を購読する（戻り値の関数で購読を解除）
+    onStatusChanged: (callback: (change: StatusChange) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, change: StatusChange) =>
+        callback(change);
+      ipcRenderer.on('git:status-changed', listener);
+      return () => {
+        ipcRenderer.removeListener('git:status-changed', listener);
+      };
+    },
+    // クローンの進捗を購読する（戻り値の関数で購読を解除）
+    onCloneProgress: (callback: (progress: CloneProgress) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, progress: CloneProgress) =>
+        callback(progress);
+      ipcRenderer.on('git:clone-progress', listener);
+      return () => {
+        ipcRenderer.removeListener('git:clone-progress', listener);
+      };
+    },
+  },
+
+  // GitHub連携
+  github: {
+    createRepository: (name: string, description?: string) =>
+      ipcRenderer.invoke('github:create-repository', name, description),
+    createPullRequest: (title: string, body?: string) =>
+      ipcRenderer.invoke('github:create-pull-request', title, body),
+    pullRequestStatus: () => ipcRenderer.invoke('github:pull-request-status'),
   },
 });
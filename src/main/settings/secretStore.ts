@@ -0,0 +1,62 @@
+import { safeStorage } from 'electron';
+
+// 暗号化したシークレット（キーごとにBase64で保存）
+type Secrets = {
+  tokens: Record<string, string>;
+};
+
+// 設定とは別のファイルに保存するストアを作成する関数
+// electron-storeはESモジュールのみで提供されているため動的に読み込む
+const createSecretStore = async () => {
+  const { default: Store } = await import('electron-store');
+  return new Store<Secrets>({ name: 'secrets' });
+};
+
+let secretStorePromise: ReturnType<typeof createSecretStore> | null = null;
+
+const getSecretStore = () => {
+  if (!secretStorePromise) secretStorePromise = createSecretStore();
+  return secretStorePromise;
+};
+
+// シークレットのキー
+export const SecretKey = {
+  GIT_TOKEN: 'git-token',
+  remoteToken: (remote: string) => `remote-token:${remote}`,
+} as const;
+
+const getTokens = async (): Promise<Record<string, string>> =>
+  (await getSecretStore()).get('tokens') ?? {};
+
+// シークレットを取得する関数（保存されていない場合や復号できない場合はnull）
+export const getSecret = async (key: string): Promise<string | null> => {
+  const encrypted = (await getTokens())[key];
+  if (!encrypted) return null;
+
+  try {
+    return safeStorage.decryptString(Buffer.from(encrypted, 'base64'));
+  } catch (error) {
+    console.error('シークレットの復号に失敗しました:', error);
+    return null;
+  }
+};
+
+// シークレットが保存されているかどうかを判定する関数
+export const hasSecret = async (key: string) => !!(await getTokens())[key];
+
+// シークレットをOSの暗号化機能で暗号化して保存する関数
+export const setSecret = async (key: string, value: string) => {
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('OSの暗号化機能が利用できないため、シークレットを保存できません');
+  }
+
+  const encrypted = safeStorage.encryptString(value).toString('base64');
+  (await getSecretStore()).set('tokens', { ...(await getTokens()), [key]: encrypted });
+};
+
+// シークレットを削除する関数
+export const deleteSecret = async (key: string) => {
+  const tokens = await getTokens();
+  delete tokens[key];
+  (await getSecretStore()).set('tokens', tokens);
+};
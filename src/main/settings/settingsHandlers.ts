@@ -2,17 +2,120 @@ import { ipcMain } from 'electron';
 // @ts-ignore
 import Store from 'electron-store';
 import { AppSettings } from '../../types/appSettings';
+import { syncOriginUrl } from '../git/gitUtils';
+import { watchDirectory } from '../fileSystem/fileWatcher';
+import { deleteSecret, hasSecret, SecretKey, setSecret } from './secretStore';
 
 const appSettingsStore = new Store<AppSettings>({
   name: 'app-settings',
 });
 
+// 以前のバージョンで平文のトークンを保存していた設定
+type LegacyGitSettings = AppSettings['git'] & {
+  token?: string;
+  remoteCredentials?: Record<string, { username: string; token?: string }>;
+};
+
+// 平文のトークンを取り除いたGitの設定を取得する関数（移行に失敗して残っている場合もレンダラーに渡さない）
+const omitPlaintextSecrets = (gitSettings: LegacyGitSettings): AppSettings['git'] => {
+  const { remoteCredentials, ...rest } = gitSettings;
+  delete rest.token;
+  if (!remoteCredentials) return rest;
+
+  return {
+    ...rest,
+    remoteCredentials: Object.fromEntries(
+      Object.entries(remoteCredentials).map(([remote, credentials]) => [
+        remote,
+        { username: credentials.username },
+      ])
+    ),
+  };
+};
+
+// 平文で保存されているトークンを暗号化したシークレットに移行する関数
+const migratePlaintextSecrets = async () => {
+  const settings: AppSettings | undefined = appSettingsStore.get('settings');
+  if (!settings?.git) return;
+
+  const { token, remoteCredentials, ...gitSettings } = settings.git as LegacyGitSettings;
+  const hasPlaintextRemoteToken = Object.values(remoteCredentials ?? {}).some(
+    (credentials) => credentials.token !== undefined
+  );
+  if (token === undefined && !hasPlaintextRemoteToken) return;
+
+  if (token) {
+    await setSecret(SecretKey.GIT_TOKEN, token);
+  }
+  const migratedCredentials: Record<string, { username: string }> = {};
+  for (const [remote, credentials] of Object.entries(remoteCredentials ?? {})) {
+    if (credentials.token) {
+      await setSecret(SecretKey.remoteToken(remote), credentials.token);
+    }
+    migratedCredentials[remote] = { username: credentials.username };
+  }
+
+  appSettingsStore.set('settings', {
+    ...settings,
+    git: { ...gitSettings, remoteCredentials: migratedCredentials },
+  });
+};
+
 export function setupAppSettingsHandlers() {
+  const migration = migratePlaintextSecrets().catch((error) => {
+    console.error('トークンの移行に失敗しました:', error);
+  });
+
+  // トークンはレンダラーに返さず、設定されているかどうかのみを返す
   ipcMain.handle('app:get-settings', async (event) => {
-    return appSettingsStore.get('settings');
+    // 移行が終わる前に読み込むと、トークンが設定されていないと判定されるため待つ
+    await migration;
+    const settings: AppSettings | undefined = appSettingsStore.get('settings');
+    if (!settings) return settings;
+
+    return {
+      ...settings,
+      git: {
+        ...(settings.git && omitPlaintextSecrets(settings.git)),
+        hasToken: await hasSecret(SecretKey.GIT_TOKEN),
+      },
+    };
+  });
+
+  ipcMain.handle('app:set-settings', async (event, settings: AppSettings) => {
+    // リモートごとの認証情報はリモートの管理画面からのみ更新する
+    // hasTokenは読み込み時に求めるため保存しない。トークンはapp:set-tokenで暗号化して保存するため平文では保存しない
+    const savedSettings: AppSettings | undefined = appSettingsStore.get('settings');
+    const gitSettings: Partial<LegacyGitSettings> = {
+      ...settings.git,
+      remoteCredentials: savedSettings?.git?.remoteCredentials,
+    };
+    delete gitSettings.hasToken;
+    delete gitSettings.token;
+    appSettingsStore.set('settings', { ...settings, git: gitSettings });
+
+    // ルートディレクトリが変わった場合は監視対象を切り替える
+    if (settings.rootDirectory.path) {
+      watchDirectory(settings.rootDirectory.path);
+    }
+
+    // 既存のリポジトリのoriginを設定のリモートURLに合わせる
+    if (settings.rootDirectory.path && settings.git.remoteUrl) {
+      try {
+        await syncOriginUrl(settings.rootDirectory.path, settings.git.remoteUrl);
+      } catch (error) {
+        // リポジトリがまだ存在しない場合（クローン前など）は何もしない
+        console.error('Error syncing origin:', error);
+      }
+    }
   });
 
-  ipcMain.handle('app:set-settings', async (event, settings) => {
-    appSettingsStore.set('settings', settings);
+  // アクセストークンを暗号化して保存（nullの場合は削除）
+  ipcMain.handle('app:set-token', async (event, token: string | null) => {
+    if (token) {
+      await setSecret(SecretKey.GIT_TOKEN, token);
+    } else {
+      await deleteSecret(SecretKey.GIT_TOKEN);
+    }
   });
 }
@@ -4,9 +4,23 @@ import { Editor, EditorRefType } from './components/Editor/Editor';
 import { FileTree } from './components/FileTree/FileTree';
 import { GitControls } from './components/GitOps/GitControls';
 import { useState, useRef, useEffect } from 'react';
-import { Save, Settings, Undo2 } from 'lucide-react';
+import { RotateCcw, Save, Settings, Undo2, Users } from 'lucide-react';
 import { AppSettings } from './components/AppSettings/AppSettings';
+import { HistoryPanel } from './components/GitOps/HistoryPanel';
+import { SnapshotPanel } from './components/GitOps/SnapshotPanel';
+import { DiffViewer } from './components/GitOps/DiffViewer';
+import { ConflictResolver } from './components/GitOps/ConflictResolver';
+import { SyncStatusIndicator } from './components/GitOps/SyncStatusIndicator';
 import { useFileLoader } from './hooks/useFileLoader';
+import { useAutoSync } from './hooks/useAutoSync';
+import {
+  AppSettings as AppSettingsType,
+  DEFAULT_COMMIT_SETTINGS,
+  DEFAULT_SYNC_SETTINGS,
+} from '../types/appSettings';
+import { CommitSummary } from '../types/gitLog';
+import { DiffTargetType } from '../types/gitDiff';
+import { BlameResult } from '../types/gitBlame';
 
 const root = createRoot(document.body);
 root.render(<App />);
@@ -15,7 +29,31 @@ export default function App() {
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
   const [hasGitSettings, setHasGitSettings] = useState<boolean>(false);
+  const [rootPath, setRootPath] = useState<string | null>(null);
+  const [fileTreeRefreshKey, setFileTreeRefreshKey] = useState<number>(0);
+  const [syncSettings, setSyncSettings] = useState<AppSettingsType['sync'] | null>(null);
+  const [commitSettings, setCommitSettings] =
+    useState<AppSettingsType['commit']>(DEFAULT_COMMIT_SETTINGS);
+  // 履歴から選択した過去のリビジョン（読み取り専用で表示）
+  const [revision, setRevision] = useState<{ commit: CommitSummary; content: string } | null>(null);
+  const [revisionError, setRevisionError] = useState<string>('');
+  // 差分を表示中のファイル
+  const [diffView, setDiffView] = useState<{ filepath: string; target: DiffTargetType } | null>(
+    null
+  );
+  // コンフリクトを解決中のファイル
+  const [conflictView, setConflictView] = useState<string | null>(null);
+  const [gitStatusRefreshKey, setGitStatusRefreshKey] = useState<number>(0);
+  // 各ブロックを最後に変更した人を表示するかどうか
+  const [showBlame, setShowBlame] = useState<boolean>(false);
+  const [blame, setBlame] = useState<BlameResult | null>(null);
   const editorRef = useRef<EditorRefType>(null);
+  // 開いているファイルのディスク上の内容（読み込んだ内容または保存した内容）
+  const diskContentRef = useRef<string | null>(null);
+  // 開いているファイルに保存していない編集があるかどうか
+  const isDirtyRef = useRef<boolean>(false);
+  // 保存していない編集がある間に、外部でファイルが変更されたかどうか
+  const [hasExternalChange, setHasExternalChange] = useState<boolean>(false);
 
   // 新しいファイルローダーフックを使用
   const {
@@ -24,16 +62,59 @@ export default function App() {
     error,
     fileInfo,
     loadProgress,
+    reload: reloadFile,
+    markMoved: markFileMoved,
   } = useFileLoader(selectedFile);
 
+  // ファイルを読み込み終えたら、その内容を編集前の状態として記録する
+  useEffect(() => {
+    if (isLoading) return;
+    diskContentRef.current = fileContent;
+    isDirtyRef.current = false;
+    setHasExternalChange(false);
+  }, [fileContent, isLoading]);
+
+  // 外部のエディターやプルなどで開いているファイルが変更された場合は、編集していなければ再読み込みする
+  // 保存していない編集がある場合は、再読み込みするか編集内容を保持するかを選択してもらう
+  useEffect(() => {
+    if (!selectedFile) return;
+
+    return window.api.fs.onFilesChanged(async (filePaths) => {
+      if (!filePaths.includes(selectedFile)) return;
+
+      let content: string;
+      try {
+        content = await window.api.fs.readFile(selectedFile);
+      } catch (error) {
+        // 削除された場合はファイルツリーから取り除かれるため、エディターはそのままにする
+        console.error('Error reading changed file:', error);
+        return;
+      }
+      // アプリで保存した内容と同じ場合は何もしない
+      if (content === diskContentRef.current) return;
+
+      if (isDirtyRef.current) {
+        diskContentRef.current = content;
+        setHasExternalChange(true);
+      } else {
+        reloadFile();
+      }
+    });
+  }, [selectedFile]);
+
   // Gitの設定を確認する関数
   const checkGitSettings = async () => {
     try {
       const settings = await window.api.app.getSettings();
       setHasGitSettings(!!settings?.rootDirectory?.path);
+      setRootPath(settings?.rootDirectory?.path || null);
+      setSyncSettings(settings ? { ...DEFAULT_SYNC_SETTINGS, ...settings.sync } : null);
+      setCommitSettings({ ...DEFAULT_COMMIT_SETTINGS, ...settings?.commit });
     } catch (error) {
       console.error('Error checking git settings:', error);
       setHasGitSettings(false);
+      setRootPath(null);
+      setSyncSettings(null);
     }
   };
 
@@ -42,9 +123,117 @@ export default function App() {
     checkGitSettings();
   }, []);
 
+  // 表示中のファイルの各行を最後に変更したコミットを取得（コミットやプルのたびに更新する）
+  useEffect(() => {
+    if (!showBlame || !selectedFile || !hasGitSettings) {
+      setBlame(null);
+      return;
+    }
+
+    const loadBlame = async () => {
+      try {
+        setBlame(await window.api.git.blame(selectedFile));
+      } catch (error) {
+        console.error('Error loading blame:', error);
+        setBlame(null);
+      }
+    };
+
+    loadBlame();
+  }, [showBlame, selectedFile, hasGitSettings, gitStatusRefreshKey]);
+
   // ファイルが選択されたときの処理
   const handleFileSelect = async (filePath: string) => {
     setSelectedFile(filePath);
+    setRevision(null);
+    setRevisionError('');
+    setDiffView(null);
+    setConflictView(null);
+  };
+
+  // ファイルやフォルダが移動されたときの処理
+  // 開いているファイルが含まれる場合は、読み込み直さずにパスだけを変えて編集中の内容を保つ
+  const handleFileMoved = (fromPath: string, toPath: string) => {
+    if (!selectedFile) return;
+    if (selectedFile !== fromPath && !selectedFile.startsWith(`${fromPath}/`)) return;
+
+    const newPath = toPath + selectedFile.slice(fromPath.length);
+    markFileMoved(newPath);
+    setSelectedFile(newPath);
+  };
+
+  // 履歴からコミットが選択されたときの処理
+  const handleRevisionSelect = async (commit: CommitSummary) => {
+    if (!selectedFile) return;
+
+    try {
+      setRevisionError('');
+      const content = await window.api.git.readFileAtCommit(commit.oid, selectedFile);
+      setRevision({ commit, content });
+    } catch (error) {
+      console.error('Error reading revision:', error);
+      setRevisionError(`このコミットには ${selectedFile.split('/').pop()} が存在しません`);
+    }
+  };
+
+  // Git操作でファイルが更新されたときの処理
+  const handleFilesChanged = (filepaths: string[]) => {
+    // ファイルツリーを再読み込み
+    setFileTreeRefreshKey((prev) => prev + 1);
+
+    // 開いているファイルが更新された場合はエディターの内容を再読み込み
+    if (selectedFile && rootPath) {
+      const relativePath = selectedFile
+        .slice(rootPath.length)
+        .replace(/\\/g, '/')
+        .replace(/^\//, '');
+      if (filepaths.includes(relativePath)) {
+        reloadFile();
+      }
+    }
+  };
+
+  // 自動同期（コンフリクトが発生した場合は一時停止する）
+  const autoSync = useAutoSync(hasGitSettings ? syncSettings : null, (changedFiles) => {
+    setGitStatusRefreshKey((prev) => prev + 1);
+    handleFilesChanged(changedFiles);
+  });
+
+  // ファイルを指定したコミットの内容に復元する処理
+  const handleRestore = async (filepath: string, commit: CommitSummary, ref: string) => {
+    const fileName = filepath.split('/').pop();
+    if (
+      !window.confirm(
+        `${fileName} を ${commit.oid.slice(0, 7)}「${commit.message.split('\n')[0]}」の時点の内容に復元しますか？\n現在の変更は失われます。`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setRevisionError('');
+      const restoredFiles = await window.api.git.restoreFiles([filepath], ref);
+      setRevision(null);
+      setGitStatusRefreshKey((prev) => prev + 1);
+      handleFilesChanged(restoredFiles);
+    } catch (error) {
+      console.error('Error restoring file:', error);
+      setRevisionError(`${fileName} の復元に失敗しました`);
+    }
+  };
+
+  // コミットを打ち消したときの処理
+  const handleReverted = (filepaths: string[]) => {
+    setRevision(null);
+    setGitStatusRefreshKey((prev) => prev + 1);
+    handleFilesChanged(filepaths);
+  };
+
+  // コンフリクトが解決されたときの処理
+  const handleConflictResolved = (filepath: string) => {
+    setConflictView(null);
+    setGitStatusRefreshKey((prev) => prev + 1);
+    handleFilesChanged([filepath]);
   };
 
   // ファイルを保存する処理
@@ -60,6 +249,10 @@ export default function App() {
 
         await window.api.fs.writeFile(selectedFile, contentToSave);
         console.log('File saved successfully');
+        diskContentRef.current = contentToSave;
+        isDirtyRef.current = false;
+        setHasExternalChange(false);
+        autoSync.notifyActivity();
       } catch (error) {
         console.error('Error saving file:', error);
       }
@@ -74,7 +267,10 @@ export default function App() {
 
   return (
     <div className="bg-base-200 min-h-screen pt-8 pb-2">
-      <header className="mb-4 flex justify-end px-8">
+      <header className="mb-4 flex items-center justify-end gap-4 px-8">
+        {autoSync.isEnabled && (
+          <SyncStatusIndicator state={autoSync} onSync={autoSync.sync} onResume={autoSync.resume} />
+        )}
         <button
           className="btn btn-ghost btn-circle"
           onClick={() => setIsSettingsOpen((prevState) => !prevState)}
@@ -88,52 +284,180 @@ export default function App() {
         ) : (
           <>
             <div className="w-1/4">
-              {hasGitSettings && <GitControls selectedFile={selectedFile} />}
+              {hasGitSettings && (
+                <GitControls
+                  selectedFile={selectedFile}
+                  onFilesChanged={handleFilesChanged}
+                  onShowDiff={(filepath, target) => {
+                    setConflictView(null);
+                    setDiffView({ filepath, target });
+                  }}
+                  onResolveConflict={(filepath) => {
+                    setDiffView(null);
+                    setConflictView(filepath);
+                  }}
+                  refreshKey={gitStatusRefreshKey}
+                  autoFillCommitMessage={commitSettings.autoFill}
+                />
+              )}
+              {hasGitSettings && (
+                <HistoryPanel
+                  selectedFile={selectedFile}
+                  selectedRevision={revision?.commit.oid ?? null}
+                  onRevisionSelect={handleRevisionSelect}
+                  onRestore={handleRestore}
+                  onReverted={handleReverted}
+                />
+              )}
+              {hasGitSettings && <SnapshotPanel refreshKey={gitStatusRefreshKey} />}
               <FileTree
+                refreshKey={fileTreeRefreshKey}
+                activeFile={selectedFile}
                 onFileSelect={handleFileSelect}
+                onFileMoved={handleFileMoved}
                 onSettingsClick={() => setIsSettingsOpen(true)}
               />
             </div>
             <div className="flex h-full w-3/4 flex-col">
               <div className="card bg-base-100 flex-1 shadow-xl">
                 <div className="card-body">
-                  <div className="flex items-center justify-between">
-                    <h2 className="card-title">
-                      {selectedFile ? selectedFile.split('/').pop() : 'ファイルを選択してください'}
-                    </h2>
-                    <button
-                      onClick={handleSave}
-                      disabled={!selectedFile}
-                      className="btn btn-primary gap-2"
-                    >
-                      <Save className="h-4 w-4" />
-                      保存
-                    </button>
-                  </div>
-
-                  {isLoading && (
-                    <div className="flex h-40 items-center justify-center">
-                      <div className="flex flex-col items-center">
-                        <span className="loading loading-spinner loading-lg text-primary"></span>
-                        <p className="text-base-content mt-3">読み込み中... {loadProgress}%</p>
-                        {fileInfo?.isLargeFile && (
-                          <p className="text-base-content/70 mt-1 text-sm">
-                            大きなファイル ({Math.round(fileInfo.size / 1024)} KB)
-                            を読み込んでいます
-                          </p>
+                  {conflictView ? (
+                    <ConflictResolver
+                      filepath={conflictView}
+                      onResolved={handleConflictResolved}
+                      onClose={() => setConflictView(null)}
+                    />
+                  ) : diffView ? (
+                    <DiffViewer
+                      filepath={diffView.filepath}
+                      target={diffView.target}
+                      onClose={() => setDiffView(null)}
+                      onStagingChanged={() => setGitStatusRefreshKey((prev) => prev + 1)}
+                    />
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <h2 className="card-title">
+                          {selectedFile
+                            ? selectedFile.split('/').pop()
+                            : 'ファイルを選択してください'}
+                          {revision && (
+                            <span className="badge badge-neutral font-normal">
+                              {revision.commit.oid.slice(0, 7)} 時点（読み取り専用）
+                            </span>
+                          )}
+                        </h2>
+                        {revision && selectedFile ? (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() =>
+                                handleRestore(selectedFile, revision.commit, revision.commit.oid)
+                              }
+                              className="btn btn-warning gap-2"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                              このバージョンに復元
+                            </button>
+                            <button
+                              onClick={() => setRevision(null)}
+                              className="btn btn-outline gap-2"
+                            >
+                              <Undo2 className="h-4 w-4" />
+                              最新に戻る
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="flex gap-2">
+                            {hasGitSettings && (
+                              <button
+                                onClick={() => setShowBlame(!showBlame)}
+                                disabled={!selectedFile}
+                                className={`btn gap-2 ${showBlame ? 'btn-active' : 'btn-outline'}`}
+                                title="各段落を最後に変更した人と日時を表示"
+                              >
+                                <Users className="h-4 w-4" />
+                                変更者
+                              </button>
+                            )}
+                            <button
+                              onClick={handleSave}
+                              disabled={!selectedFile}
+                              className="btn btn-primary gap-2"
+                            >
+                              <Save className="h-4 w-4" />
+                              保存
+                            </button>
+                          </div>
                         )}
                       </div>
-                    </div>
-                  )}
 
-                  {error && (
-                    <div className="alert alert-error mt-4">
-                      <p>エラーが発生しました: {error.message}</p>
-                    </div>
-                  )}
+                      {revisionError && (
+                        <div className="alert alert-warning mt-4">
+                          <p>{revisionError}</p>
+                        </div>
+                      )}
+
+                      {hasExternalChange && !revision && (
+                        <div className="alert alert-warning mt-4 flex items-center justify-between text-sm">
+                          <span>
+                            このファイルはディスク上で変更されました。保存していない編集があります
+                          </span>
+                          <div className="flex gap-2">
+                            <button onClick={reloadFile} className="btn btn-warning btn-xs">
+                              再読み込み
+                            </button>
+                            <button
+                              onClick={() => setHasExternalChange(false)}
+                              className="btn btn-ghost btn-xs"
+                            >
+                              編集内容を保持
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
+                      {isLoading && (
+                        <div className="flex h-40 items-center justify-center">
+                          <div className="flex flex-col items-center">
+                            <span className="loading loading-spinner loading-lg text-primary"></span>
+                            <p className="text-base-content mt-3">読み込み中... {loadProgress}%</p>
+                            {fileInfo?.isLargeFile && (
+                              <p className="text-base-content/70 mt-1 text-sm">
+                                大きなファイル ({Math.round(fileInfo.size / 1024)} KB)
+                                を読み込んでいます
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      {error && (
+                        <div className="alert alert-error mt-4">
+                          <p>エラーが発生しました: {error.message}</p>
+                        </div>
+                      )}
+
+                      {!isLoading && revision && (
+                        <Editor
+                          key={revision.commit.oid}
+                          initialContent={revision.content}
+                          readOnly
+                          className="flex-1"
+                        />
+                      )}
 
-                  {!isLoading && fileContent && (
-                    <Editor initialContent={fileContent} ref={editorRef} className="flex-1" />
+                      {!isLoading && !revision && fileContent && (
+                        <Editor
+                          initialContent={fileContent}
+                          ref={editorRef}
+                          className="flex-1"
+                          blame={blame}
+                          onChange={() => {
+                            isDirtyRef.current = true;
+                          }}
+                        />
+                      )}
+                    </>
                   )}
                 </div>
               </div>
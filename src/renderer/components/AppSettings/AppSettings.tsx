@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react';
-import { AppSettings as AppSettingsType } from '../../../types/appSettings';
-import { CheckIcon, FolderOpen } from 'lucide-react';
+import {
+  AppSettings as AppSettingsType,
+  DEFAULT_COMMIT_SETTINGS,
+  DEFAULT_GITHUB_SETTINGS,
+  DEFAULT_SYNC_SETTINGS,
+} from '../../../types/appSettings';
+import { CloneProgress, CloneStatus } from '../../../types/gitClone';
+import { CheckIcon, Download, FolderOpen } from 'lucide-react';
+import { RemoteSettings } from './RemoteSettings';
 
 export const AppSettings = ({ onSettingsChange }: { onSettingsChange: () => void }) => {
   const [settings, setSettings] = useState<AppSettingsType>({
@@ -9,19 +16,28 @@ export const AppSettings = ({ onSettingsChange }: { onSettingsChange: () => void
     },
     git: {
       remoteUrl: '',
-      token: '',
+      hasToken: false,
       author: {
         name: '',
         email: '',
       },
     },
+    github: DEFAULT_GITHUB_SETTINGS,
+    sync: DEFAULT_SYNC_SETTINGS,
+    commit: DEFAULT_COMMIT_SETTINGS,
   });
 
+  // 新しく入力されたアクセストークン（空の場合は変更しない）
+  const [token, setToken] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState<{
     type: 'success' | 'error';
     text: string;
   } | null>(null);
+  const [isCloning, setIsCloning] = useState(false);
+  const [cloneProgress, setCloneProgress] = useState<CloneProgress | null>(null);
+  const [repositoryName, setRepositoryName] = useState<string>('');
+  const [isCreatingRepository, setIsCreatingRepository] = useState(false);
 
   // 設定を読み込む
   useEffect(() => {
@@ -29,7 +45,13 @@ export const AppSettings = ({ onSettingsChange }: { onSettingsChange: () => void
       try {
         const savedSettings = await window.api.app.getSettings();
         if (savedSettings) {
-          setSettings(savedSettings);
+          // 自動同期などの設定がない古い設定には初期値を補う
+          setSettings({
+            ...savedSettings,
+            github: { ...DEFAULT_GITHUB_SETTINGS, ...savedSettings.github },
+            sync: { ...DEFAULT_SYNC_SETTINGS, ...savedSettings.sync },
+            commit: { ...DEFAULT_COMMIT_SETTINGS, ...savedSettings.commit },
+          });
         }
       } catch (error) {
         console.error('設定の読み込みに失敗しました:', error);
@@ -39,13 +61,26 @@ export const AppSettings = ({ onSettingsChange }: { onSettingsChange: () => void
     loadSettings();
   }, []);
 
+  // 設定と新しく入力されたアクセストークンを保存する
+  const persistSettings = async () => {
+    await window.api.app.setSettings(settings);
+    if (token) {
+      await window.api.app.setToken(token);
+      setToken('');
+      setSettings((prev: AppSettingsType) => ({
+        ...prev,
+        git: { ...prev.git, hasToken: true },
+      }));
+    }
+  };
+
   // 設定を保存する
   const handleSave = async () => {
     setIsSaving(true);
     setSaveMessage(null);
 
     try {
-      await window.api.app.setSettings(settings);
+      await persistSettings();
       setSaveMessage({ type: 'success', text: '設定を保存しました' });
       onSettingsChange();
     } catch (error) {
@@ -56,6 +91,89 @@ export const AppSettings = ({ onSettingsChange }: { onSettingsChange: () => void
     }
   };
 
+  // リモートURLのリポジトリを空のディレクトリにクローンする
+  const handleClone = async () => {
+    if (!settings.git.remoteUrl) {
+      setSaveMessage({ type: 'error', text: 'リモートURLを入力してください' });
+      return;
+    }
+
+    const dirPath = await window.api.dialog.selectDirectory();
+    if (!dirPath) return;
+
+    setIsCloning(true);
+    setSaveMessage(null);
+    setCloneProgress(null);
+    const unsubscribe = window.api.git.onCloneProgress(setCloneProgress);
+    try {
+      // クローンには保存済みのリモートURLとトークンを使うため先に保存する
+      await persistSettings();
+      const result = await window.api.git.clone(dirPath);
+      setSettings((prev: AppSettingsType) => ({
+        ...prev,
+        rootDirectory: { ...prev.rootDirectory, path: result.path },
+      }));
+      setSaveMessage({
+        type: 'success',
+        text:
+          result.status === CloneStatus.INITIALIZED
+            ? 'リモートが空のため、新しいリポジトリを作成しました'
+            : 'リポジトリをクローンしました',
+      });
+      onSettingsChange();
+    } catch (error) {
+      console.error('クローンに失敗しました:', error);
+      setSaveMessage({ type: 'error', text: 'クローンに失敗しました' });
+    } finally {
+      unsubscribe();
+      setIsCloning(false);
+      setCloneProgress(null);
+    }
+  };
+
+  // GitHubにプライベートリポジトリを作成してリモートURLに設定する
+  const handleCreateRepository = async () => {
+    if (!repositoryName.trim()) return;
+
+    setIsCreatingRepository(true);
+    setSaveMessage(null);
+    try {
+      // 作成にはAPIのURLとトークンを使うため先に保存する
+      await persistSettings();
+      const repository = await window.api.github.createRepository(repositoryName.trim());
+      setSettings((prev: AppSettingsType) => ({
+        ...prev,
+        git: { ...prev.git, remoteUrl: repository.cloneUrl },
+      }));
+      setRepositoryName('');
+      setSaveMessage({
+        type: 'success',
+        text: `${repository.fullName} を作成してリモートURLに設定しました`,
+      });
+    } catch (error) {
+      console.error('リポジトリの作成に失敗しました:', error);
+      setSaveMessage({ type: 'error', text: 'リポジトリの作成に失敗しました' });
+    } finally {
+      setIsCreatingRepository(false);
+    }
+  };
+
+  // 保存済みのアクセストークンを削除する
+  const handleRemoveToken = async () => {
+    if (!window.confirm('保存済みのアクセストークンを削除しますか？')) return;
+
+    try {
+      await window.api.app.setToken(null);
+      setSettings((prev: AppSettingsType) => ({
+        ...prev,
+        git: { ...prev.git, hasToken: false },
+      }));
+    } catch (error) {
+      console.error('アクセストークンの削除に失敗しました:', error);
+      setSaveMessage({ type: 'error', text: 'アクセストークンの削除に失敗しました' });
+    }
+  };
+
   // ディレクトリ選択ダイアログを開く
   const handleSelectDirectory = async () => {
     try {
@@ -138,21 +256,32 @@ export const AppSettings = ({ onSettingsChange }: { onSettingsChange: () => void
                 <label className="label">
                   <span className="label-text">アクセストークン</span>
                 </label>
-                <input
-                  type="password"
-                  value={settings.git.token}
-                  onChange={(e) =>
-                    setSettings((prev: AppSettingsType) => ({
-                      ...prev,
-                      git: { ...prev.git, token: e.target.value },
-                    }))
-                  }
-                  placeholder="ghp_xxxxxxxxxxxxxxxxxxxx"
-                  className="input input-bordered w-full"
-                />
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <input
+                      type="password"
+                      value={token}
+                      onChange={(e) => setToken(e.target.value)}
+                      placeholder={
+                        settings.git.hasToken
+                          ? '設定済み（変更する場合のみ入力）'
+                          : 'ghp_xxxxxxxxxxxxxxxxxxxx'
+                      }
+                      className="input input-bordered w-full pr-8"
+                    />
+                    {settings.git.hasToken && !token && (
+                      <CheckIcon className="text-success absolute top-1/2 right-2 h-4 w-4 -translate-y-1/2" />
+                    )}
+                  </div>
+                  {settings.git.hasToken && (
+                    <button onClick={handleRemoveToken} className="btn btn-outline btn-error">
+                      削除
+                    </button>
+                  )}
+                </div>
                 <label className="label">
                   <span className="label-text-alt">
-                    GitHubのパーソナルアクセストークンを入力してください
+                    GitHubのパーソナルアクセストークンを入力してください（OSの機能で暗号化して保存されます）
                   </span>
                 </label>
               </div>
@@ -205,6 +334,229 @@ export const AppSettings = ({ onSettingsChange }: { onSettingsChange: () => void
             </div>
           </div>
 
+          {/* リモート設定（リポジトリが設定されている場合のみ） */}
+          {settings.rootDirectory.path && <RemoteSettings />}
+
+          {/* 自動同期設定 */}
+          <div className="form-control">
+            <h3 className="mb-4 text-lg font-medium">自動同期</h3>
+
+            <div className="space-y-6">
+              <label className="label cursor-pointer justify-start gap-4">
+                <input
+                  type="checkbox"
+                  checked={settings.sync.autoSync}
+                  onChange={(e) =>
+                    setSettings((prev: AppSettingsType) => ({
+                      ...prev,
+                      sync: { ...prev.sync, autoSync: e.target.checked },
+                    }))
+                  }
+                  className="toggle toggle-primary"
+                />
+                <span className="label-text">変更を自動でコミットし、プルしてからプッシュする</span>
+              </label>
+
+              <div className="flex gap-4">
+                <div className="form-control flex-1">
+                  <label className="label">
+                    <span className="label-text">同期の間隔（分）</span>
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={settings.sync.intervalMinutes}
+                    onChange={(e) =>
+                      setSettings((prev: AppSettingsType) => ({
+                        ...prev,
+                        sync: {
+                          ...prev.sync,
+                          intervalMinutes: Math.max(1, Number(e.target.value)),
+                        },
+                      }))
+                    }
+                    disabled={!settings.sync.autoSync}
+                    className="input input-bordered w-full"
+                  />
+                </div>
+                <div className="form-control flex-1">
+                  <label className="label">
+                    <span className="label-text">保存後の待ち時間（秒）</span>
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={settings.sync.idleSeconds}
+                    onChange={(e) =>
+                      setSettings((prev: AppSettingsType) => ({
+                        ...prev,
+                        sync: { ...prev.sync, idleSeconds: Math.max(0, Number(e.target.value)) },
+                      }))
+                    }
+                    disabled={!settings.sync.autoSync}
+                    className="input input-bordered w-full"
+                  />
+                </div>
+              </div>
+              <label className="label">
+                <span className="label-text-alt">
+                  保存してから待ち時間のあいだ操作がなければ同期します。コンフリクトが発生した場合は自動同期を停止します
+                </span>
+              </label>
+            </div>
+          </div>
+
+          {/* コミットメッセージの設定 */}
+          <div className="form-control">
+            <h3 className="mb-4 text-lg font-medium">コミットメッセージ</h3>
+
+            <div className="space-y-6">
+              <label className="label cursor-pointer justify-start gap-4">
+                <input
+                  type="checkbox"
+                  checked={settings.commit.autoFill}
+                  onChange={(e) =>
+                    setSettings((prev: AppSettingsType) => ({
+                      ...prev,
+                      commit: { ...prev.commit, autoFill: e.target.checked },
+                    }))
+                  }
+                  className="toggle toggle-primary"
+                />
+                <span className="label-text">ステージした変更からメッセージを自動で入力する</span>
+              </label>
+
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text">テンプレート</span>
+                </label>
+                <textarea
+                  value={settings.commit.template}
+                  onChange={(e) =>
+                    setSettings((prev: AppSettingsType) => ({
+                      ...prev,
+                      commit: { ...prev.commit, template: e.target.value },
+                    }))
+                  }
+                  placeholder={DEFAULT_COMMIT_SETTINGS.template}
+                  className="textarea textarea-bordered w-full font-mono text-sm"
+                  rows={3}
+                />
+                <label className="label">
+                  <span className="label-text-alt">
+                    {'{summary}'}: 変更の要約、{'{date}'}: 日付、{'{branch}'}: ブランチ名、
+                    {'{files}'}: ファイルの一覧、{'{headings}'}: 変更した見出しの一覧
+                  </span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* GitHub連携設定 */}
+          <div className="form-control">
+            <h3 className="mb-4 text-lg font-medium">GitHub連携</h3>
+
+            <div className="space-y-6">
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text">APIのURL</span>
+                </label>
+                <input
+                  type="text"
+                  value={settings.github.apiBaseUrl}
+                  onChange={(e) =>
+                    setSettings((prev: AppSettingsType) => ({
+                      ...prev,
+                      github: { ...prev.github, apiBaseUrl: e.target.value },
+                    }))
+                  }
+                  placeholder={DEFAULT_GITHUB_SETTINGS.apiBaseUrl}
+                  className="input input-bordered w-full"
+                />
+                <label className="label">
+                  <span className="label-text-alt">
+                    GitHub Enterpriseを使う場合は https://ホスト名/api/v3 を指定してください
+                  </span>
+                </label>
+              </div>
+
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text">メモ用のリポジトリを作成</span>
+                </label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={repositoryName}
+                    onChange={(e) => setRepositoryName(e.target.value)}
+                    placeholder="notes"
+                    className="input input-bordered flex-1"
+                  />
+                  <button
+                    onClick={handleCreateRepository}
+                    disabled={
+                      !repositoryName.trim() ||
+                      isCreatingRepository ||
+                      (!settings.git.hasToken && !token)
+                    }
+                    className="btn btn-outline"
+                  >
+                    {isCreatingRepository ? (
+                      <span className="loading loading-spinner loading-sm"></span>
+                    ) : (
+                      '作成'
+                    )}
+                  </button>
+                </div>
+                <label className="label">
+                  <span className="label-text-alt">
+                    プライベートリポジトリを作成し、リモートURLに設定します（アクセストークンが必要です）
+                  </span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* 初回設定: リモートからクローン */}
+          {!settings.rootDirectory.path && (
+            <div className="form-control">
+              <h3 className="mb-4 text-lg font-medium">リモートからクローン</h3>
+              <p className="text-base-content/70 mb-4 text-sm">
+                リモートURLのリポジトリを空のディレクトリにクローンし、ルートディレクトリに設定します。
+                リモートが空の場合は新しいリポジトリを作成します。
+              </p>
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={handleClone}
+                  disabled={isCloning || !settings.git.remoteUrl}
+                  className="btn btn-outline"
+                >
+                  {isCloning ? (
+                    <span className="loading loading-spinner loading-sm"></span>
+                  ) : (
+                    <Download className="h-4 w-4" />
+                  )}
+                  クローン先を選択してクローン
+                </button>
+                {isCloning && cloneProgress && (
+                  <div className="flex flex-1 flex-col gap-1">
+                    <span className="text-base-content/70 text-xs">
+                      {cloneProgress.phase}
+                      {cloneProgress.total
+                        ? ` (${cloneProgress.loaded}/${cloneProgress.total})`
+                        : ` (${cloneProgress.loaded})`}
+                    </span>
+                    <progress
+                      className="progress progress-primary w-full"
+                      value={cloneProgress.total ? cloneProgress.loaded : undefined}
+                      max={cloneProgress.total ?? undefined}
+                    ></progress>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* 保存ボタン */}
           <div className="divider"></div>
           <div className="flex items-center gap-2">
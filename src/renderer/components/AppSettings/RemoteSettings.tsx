@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { Edit, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { RemoteEntry } from '../../../types/gitRemote';
+
+type RemoteForm = {
+  remote: string;
+  url: string;
+  username: string;
+  token: string;
+};
+
+const EMPTY_FORM: RemoteForm = { remote: '', url: '', username: '', token: '' };
+
+// リモートの一覧表示と追加・編集・削除
+export const RemoteSettings = () => {
+  const [remotes, setRemotes] = useState<RemoteEntry[]>([]);
+  // 編集中のリモート（新規追加の場合は空文字列、フォームを閉じている場合はnull）
+  const [editingRemote, setEditingRemote] = useState<string | null>(null);
+  const [form, setForm] = useState<RemoteForm>(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const loadRemotes = async () => {
+    try {
+      setRemotes(await window.api.git.listRemotes());
+    } catch (error) {
+      console.error('リモートの読み込みに失敗しました:', error);
+      setRemotes([]);
+    }
+  };
+
+  useEffect(() => {
+    loadRemotes();
+  }, []);
+
+  const closeForm = () => {
+    setEditingRemote(null);
+    setForm(EMPTY_FORM);
+  };
+
+  // フォームの内容でリモートを追加・更新する
+  const handleSubmit = async () => {
+    if (!form.remote.trim() || !form.url.trim()) return;
+
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      const credentials = form.token ? { username: form.username, token: form.token } : undefined;
+      if (editingRemote) {
+        await window.api.git.updateRemote(editingRemote, form.url.trim(), credentials);
+      } else {
+        await window.api.git.addRemote(form.remote.trim(), form.url.trim(), credentials);
+      }
+      closeForm();
+      await loadRemotes();
+    } catch (error) {
+      console.error('リモートの保存に失敗しました:', error);
+      setErrorMessage('リモートの保存に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = async (remote: string) => {
+    if (!window.confirm(`リモート ${remote} を削除しますか？`)) return;
+
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      await window.api.git.removeRemote(remote);
+      await loadRemotes();
+    } catch (error) {
+      console.error('リモートの削除に失敗しました:', error);
+      setErrorMessage('リモートの削除に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="form-control">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-lg font-medium">リモート</h3>
+        <button
+          onClick={() => {
+            setForm(EMPTY_FORM);
+            setEditingRemote('');
+          }}
+          disabled={isLoading}
+          className="btn btn-outline btn-sm"
+        >
+          <Plus className="h-4 w-4" />
+          リモートを追加
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {remotes.map((entry) => (
+          <li key={entry.remote} className="bg-base-200 flex items-center gap-4 rounded p-2">
+            <span className="w-24 font-medium">{entry.remote}</span>
+            <span className="flex-1 truncate text-sm" title={entry.url}>
+              {entry.url}
+            </span>
+            {entry.hasCredentials && (
+              <span title="認証情報が設定されています">
+                <KeyRound className="text-success h-4 w-4" />
+              </span>
+            )}
+            {entry.remote === 'origin' ? (
+              <span className="text-base-content/70 text-xs">リモートURLの設定と同期</span>
+            ) : (
+              <div className="flex gap-1">
+                <button
+                  onClick={() => {
+                    setForm({ remote: entry.remote, url: entry.url, username: '', token: '' });
+                    setEditingRemote(entry.remote);
+                  }}
+                  disabled={isLoading}
+                  className="btn btn-ghost btn-xs"
+                  title="編集"
+                >
+                  <Edit className="h-3 w-3" />
+                </button>
+                <button
+                  onClick={() => handleRemove(entry.remote)}
+                  disabled={isLoading}
+                  className="btn btn-ghost btn-xs text-error"
+                  title="削除"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {editingRemote !== null && (
+        <div className="bg-base-200 mt-4 space-y-2 rounded p-4">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={form.remote}
+              onChange={(e) => setForm((prev) => ({ ...prev, remote: e.target.value }))}
+              disabled={!!editingRemote}
+              placeholder="リモート名（例: team）"
+              className="input input-bordered input-sm w-40"
+            />
+            <input
+              type="text"
+              value={form.url}
+              onChange={(e) => setForm((prev) => ({ ...prev, url: e.target.value }))}
+              placeholder="https://github.com/team/repo.git"
+              className="input input-bordered input-sm flex-1"
+            />
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={form.username}
+              onChange={(e) => setForm((prev) => ({ ...prev, username: e.target.value }))}
+              placeholder="ユーザー名（省略可）"
+              className="input input-bordered input-sm w-40"
+            />
+            <input
+              type="password"
+              value={form.token}
+              onChange={(e) => setForm((prev) => ({ ...prev, token: e.target.value }))}
+              placeholder={
+                editingRemote ? 'アクセストークン（空欄の場合は変更しない）' : 'アクセストークン'
+              }
+              className="input input-bordered input-sm flex-1"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={closeForm} className="btn btn-ghost btn-sm">
+              キャンセル
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={!form.remote.trim() || !form.url.trim() || isLoading}
+              className="btn btn-primary btn-sm"
+            >
+              {editingRemote ? '更新' : '追加'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="alert alert-error mt-2">
+          <span>{errorMessage}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { LexicalComposer } from '@lexical/react/LexicalComposer';
 import { RichTextPlugin } from '@lexical/react/LexicalRichTextPlugin';
 import { ContentEditable } from '@lexical/react/LexicalContentEditable';
 import { HistoryPlugin } from '@lexical/react/LexicalHistoryPlugin';
+import { OnChangePlugin } from '@lexical/react/LexicalOnChangePlugin';
 import { LexicalErrorBoundary } from '@lexical/react/LexicalErrorBoundary';
 
 import { MarkdownShortcutPlugin } from '@lexical/react/LexicalMarkdownShortcutPlugin';
@@ -17,6 +18,9 @@ import { useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import { SavePlugin } from './plugins/SavePlugin';
 import { TRANSFORMERS } from './plugins/MarkdownTransformers';
 import { TablePlugin } from '@lexical/react/LexicalTablePlugin';
+import { ReadOnlyPlugin } from './plugins/ReadOnlyPlugin';
+import { BlameGutterPlugin } from './plugins/BlameGutterPlugin';
+import { BlameResult } from '../../../types/gitBlame';
 
 function onError(error: Error) {
   console.error(error);
@@ -25,6 +29,11 @@ function onError(error: Error) {
 interface EditorProps {
   initialContent: string;
   className?: string;
+  readOnly?: boolean;
+  // 指定した場合はブロックごとに最後に変更した人を左側に表示する
+  blame?: BlameResult | null;
+  // 編集によって内容が変わったときに呼び出す（ファイルの読み込みによる変更では呼び出さない）
+  onChange?: () => void;
 }
 
 export interface EditorRefType {
@@ -32,7 +41,7 @@ export interface EditorRefType {
 }
 
 export const Editor = forwardRef<EditorRefType, EditorProps>(
-  ({ initialContent, className }, ref) => {
+  ({ initialContent, className, readOnly = false, blame, onChange }, ref) => {
     const [floatingAnchorElem, setFloatingAnchorElem] = useState<HTMLDivElement | null>(null);
     const savePluginRef = useRef<{ getMarkdown: () => string }>(null);
 
@@ -66,15 +75,17 @@ export const Editor = forwardRef<EditorRefType, EditorProps>(
     return (
       <div className={`mx-auto w-full rounded-lg bg-white p-4 shadow-md ${className || ''}`}>
         <LexicalComposer initialConfig={initialConfig}>
-          <div className="mb-4">
-            <ToolbarPlugin />
-          </div>
+          {!readOnly && (
+            <div className="mb-4">
+              <ToolbarPlugin />
+            </div>
+          )}
           <div className="rounded-md border border-gray-300 p-4">
             <RichTextPlugin
               contentEditable={
                 <div
                   id="editor"
-                  className="editor h-[calc(100vh-330px)] overflow-y-auto"
+                  className={`editor relative h-[calc(100vh-330px)] overflow-y-auto ${blame ? 'pl-28' : ''}`}
                   ref={onRef}
                 >
                   <ContentEditable
@@ -95,6 +106,11 @@ export const Editor = forwardRef<EditorRefType, EditorProps>(
           <CheckListPlugin />
           <FileChangeUpdateStatePlugin initialContent={initialContent} />
           <SavePlugin ref={savePluginRef} />
+          {onChange && <OnChangePlugin ignoreSelectionChange onChange={() => onChange()} />}
+          <ReadOnlyPlugin readOnly={readOnly} />
+          {blame && floatingAnchorElem && (
+            <BlameGutterPlugin blame={blame} anchorElem={floatingAnchorElem} />
+          )}
           <TablePlugin
             hasCellMerge={true}
             hasCellBackgroundColor={true}
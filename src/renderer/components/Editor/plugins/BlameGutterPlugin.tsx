@@ -0,0 +1,143 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { $getRoot } from 'lexical';
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { BlameResult } from '../../../../types/gitBlame';
+import { CommitSummary } from '../../../../types/gitLog';
+
+// トップレベルのブロックごとの表示位置と、最後に変更したコミット
+type BlockBlame = {
+  key: string;
+  top: number;
+  height: number;
+  // 未コミットの変更を含む場合はnull
+  commit: CommitSummary | null;
+};
+
+// マークダウンの記法を取り除いて、エディターのテキストと比較できる形にする関数
+const normalizeLine = (line: string) =>
+  line
+    .replace(/^\s*(#{1,6}\s+|>\s*|[-*+]\s+(\[[ xX]\]\s+)?|\d+\.\s+)/, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~|]/g, '')
+    .trim();
+
+// ブロックのテキストをファイルの行と先頭から順に照合し、ブロックを最後に変更したコミットを求める関数
+// 空のブロックはundefined、一致しない行（未コミットの変更）を含むブロックはnullになる
+const mapBlameToBlocks = (
+  blockTexts: string[],
+  blame: BlameResult
+): (CommitSummary | null | undefined)[] => {
+  const normalizedLines = blame.lines.map((line) => normalizeLine(line.content));
+  let cursor = 0;
+
+  return blockTexts.map((text) => {
+    const blockLines = text.split('\n').map(normalizeLine).filter(Boolean);
+    if (blockLines.length === 0) return undefined;
+
+    const commits: CommitSummary[] = [];
+    for (const blockLine of blockLines) {
+      const index = normalizedLines.indexOf(blockLine, cursor);
+      if (index === -1) return null;
+      commits.push(blame.commits[blame.lines[index].oid]);
+      cursor = index + 1;
+    }
+    // ブロック内で最も新しいコミットを表示する
+    return commits.reduce((latest, commit) =>
+      commit.timestamp > latest.timestamp ? commit : latest
+    );
+  });
+};
+
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+};
+
+// エディターの左側に、ブロックごとに最後に変更した人と日時を表示する
+export function BlameGutterPlugin({
+  blame,
+  anchorElem,
+}: {
+  blame: BlameResult;
+  // ガターを重ねて表示するスクロール領域
+  anchorElem: HTMLElement;
+}): React.ReactElement {
+  const [editor] = useLexicalComposerContext();
+  const [blocks, setBlocks] = useState<BlockBlame[]>([]);
+
+  useEffect(() => {
+    const updateBlocks = () => {
+      const nodes = editor.getEditorState().read(() =>
+        $getRoot()
+          .getChildren()
+          .map((node) => ({ key: node.getKey(), text: node.getTextContent() }))
+      );
+      const commits = mapBlameToBlocks(
+        nodes.map((node) => node.text),
+        blame
+      );
+      const anchorTop = anchorElem.getBoundingClientRect().top - anchorElem.scrollTop;
+
+      const nextBlocks: BlockBlame[] = [];
+      nodes.forEach((node, index) => {
+        const element = editor.getElementByKey(node.key);
+        const commit = commits[index];
+        if (!element || commit === undefined) return;
+
+        const rect = element.getBoundingClientRect();
+        nextBlocks.push({ key: node.key, top: rect.top - anchorTop, height: rect.height, commit });
+      });
+      setBlocks(nextBlocks);
+    };
+
+    updateBlocks();
+    const unregister = editor.registerUpdateListener(() => {
+      // DOMに反映された後に位置を計算する
+      requestAnimationFrame(updateBlocks);
+    });
+    window.addEventListener('resize', updateBlocks);
+    return () => {
+      unregister();
+      window.removeEventListener('resize', updateBlocks);
+    };
+  }, [editor, blame, anchorElem]);
+
+  return createPortal(
+    <>
+      {blocks.map((block) => (
+        <div
+          key={block.key}
+          className="group absolute left-0 w-24 border-r-2 border-gray-300 pr-1 text-xs"
+          style={{ top: block.top, height: block.height }}
+        >
+          {block.commit ? (
+            <>
+              <p className="truncate text-gray-600">{block.commit.author.name}</p>
+              <p className="truncate text-gray-400">{formatDate(block.commit.timestamp)}</p>
+              <div className="bg-base-100 absolute top-0 left-full z-10 ml-2 hidden w-64 rounded-md border border-gray-300 p-2 shadow-md group-hover:block">
+                <p className="font-medium">
+                  {block.commit.author.name}
+                  <span className="ml-1 font-normal text-gray-500">
+                    &lt;{block.commit.author.email}&gt;
+                  </span>
+                </p>
+                <p className="text-gray-500">
+                  {new Date(block.commit.timestamp).toLocaleString('ja-JP')} ・{' '}
+                  <code>{block.commit.oid.slice(0, 7)}</code>
+                </p>
+                <p className="mt-1 whitespace-pre-wrap">{block.commit.message.trim()}</p>
+              </div>
+            </>
+          ) : (
+            <p className="text-warning truncate">未コミット</p>
+          )}
+        </div>
+      ))}
+    </>,
+    anchorElem
+  );
+}
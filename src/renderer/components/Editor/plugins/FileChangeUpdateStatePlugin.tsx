@@ -4,6 +4,9 @@ import { CLEAR_HISTORY_COMMAND } from 'lexical';
 import { $convertFromMarkdownString } from '@lexical/markdown';
 import { TRANSFORMERS } from '../plugins/MarkdownTransformers';
 
+// ファイルの読み込みによる更新に付けるタグ（編集による変更として通知せず、履歴にも残さない）
+const FILE_LOAD_TAG = 'history-merge';
+
 export function FileChangeUpdateStatePlugin({
   initialContent,
 }: {
@@ -29,11 +32,14 @@ export function FileChangeUpdateStatePlugin({
           await new Promise((resolve) => {
             // 次のフレームで処理を実行
             requestAnimationFrame(() => {
-              editor.update(() => {
-                // 履歴をクリア
-                $convertFromMarkdownString(initialContent, TRANSFORMERS);
-                editor.dispatchCommand(CLEAR_HISTORY_COMMAND, undefined);
-              });
+              editor.update(
+                () => {
+                  // 履歴をクリア
+                  $convertFromMarkdownString(initialContent, TRANSFORMERS);
+                  editor.dispatchCommand(CLEAR_HISTORY_COMMAND, undefined);
+                },
+                { tag: FILE_LOAD_TAG }
+              );
 
               // エディタをスクロールトップに
               requestAnimationFrame(() => {
@@ -47,10 +53,13 @@ export function FileChangeUpdateStatePlugin({
           });
         } else {
           // 小さなコンテンツの場合は通常通り処理
-          editor.update(() => {
-            $convertFromMarkdownString(initialContent, TRANSFORMERS);
-            editor.dispatchCommand(CLEAR_HISTORY_COMMAND, undefined);
-          });
+          editor.update(
+            () => {
+              $convertFromMarkdownString(initialContent, TRANSFORMERS);
+              editor.dispatchCommand(CLEAR_HISTORY_COMMAND, undefined);
+            },
+            { tag: FILE_LOAD_TAG }
+          );
 
           requestAnimationFrame(() => {
             const editorElement = document.getElementById('editor');
@@ -0,0 +1,13 @@
+import { useLexicalComposerContext } from '@lexical/react/LexicalComposerContext';
+import { useEffect } from 'react';
+
+// 過去のリビジョンを表示する場合などにエディターを読み取り専用にする
+export function ReadOnlyPlugin({ readOnly }: { readOnly: boolean }): React.ReactElement {
+  const [editor] = useLexicalComposerContext();
+
+  useEffect(() => {
+    editor.setEditable(!readOnly);
+  }, [editor, readOnly]);
+
+  return <></>;
+}
@@ -1,5 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ChevronLeft, X, Edit, Trash2, FolderIcon, FileIcon, Sparkles } from 'lucide-react';
+import {
+  ChevronDown,
+  ChevronRight,
+  ChevronsDownUp,
+  X,
+  Edit,
+  Trash2,
+  FolderIcon,
+  FolderOpen,
+  FileIcon,
+  Sparkles,
+} from 'lucide-react';
+import { TrashDialog } from './TrashDialog';
 
 interface FileItem {
   name: string;
@@ -8,7 +20,13 @@ interface FileItem {
 }
 
 interface FileTreeProps {
+  // 値が変わるたびに表示中のディレクトリを再読み込みする
+  refreshKey?: number;
+  // 開いているファイル（ツリー上で強調表示し、親のフォルダを展開する）
+  activeFile?: string | null;
   onFileSelect?: (filePath: string) => void;
+  // ファイルやフォルダを移動または名前を変更したときに、変更前と変更後のパスを受け取る
+  onFileMoved?: (fromPath: string, toPath: string) => void;
   onSettingsClick: () => void;
 }
 
@@ -17,47 +35,164 @@ interface ExportResult {
   outputPath: string;
 }
 
-export const FileTree: React.FC<FileTreeProps> = ({ onFileSelect, onSettingsClick }) => {
-  const [files, setFiles] = useState<FileItem[]>([]);
+// 展開したフォルダを保存するキー（ルートディレクトリごとに保存する）
+const getExpandedStorageKey = (rootDir: string) => `fileTree:expanded:${rootDir}`;
+
+const loadExpandedPaths = (rootDir: string): Set<string> => {
+  try {
+    const saved = localStorage.getItem(getExpandedStorageKey(rootDir));
+    return new Set(saved ? (JSON.parse(saved) as string[]) : []);
+  } catch (error) {
+    console.error('Error loading expanded folders:', error);
+    return new Set();
+  }
+};
+
+const getParentPath = (filePath: string) => filePath.slice(0, filePath.lastIndexOf('/'));
+
+// pathがdirPath自身またはその配下かどうかを判定する関数
+const isSameOrDescendant = (filePath: string, dirPath: string) =>
+  filePath === dirPath || filePath.startsWith(`${dirPath}/`);
+
+export const FileTree: React.FC<FileTreeProps> = ({
+  refreshKey,
+  activeFile,
+  onFileSelect,
+  onFileMoved,
+  onSettingsClick,
+}) => {
   const [rootDir, setRootDir] = useState<string | null>(null);
-  const [currentDir, setCurrentDir] = useState<string | null>(null);
-  const [loading, setLoading] = useState<boolean>(false);
+  const [hasLoadedSettings, setHasLoadedSettings] = useState<boolean>(false);
+  // 読み込んだディレクトリの内容（ディレクトリのパスをキーとする）
+  const [childrenByDir, setChildrenByDir] = useState<Record<string, FileItem[]>>({});
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
   const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
   const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState<boolean>(false);
+  // ドラッグ中のファイルやフォルダと、ドロップすると移動する先のフォルダ
+  const [draggingPath, setDraggingPath] = useState<string | null>(null);
+  const [dropTargetPath, setDropTargetPath] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
 
   // ディレクトリの内容を読み込む
-  const loadDirectory = async (dirPath: string | null) => {
+  const loadDirectory = async (dirPath: string): Promise<FileItem[]> => {
     try {
-      setLoading(true);
       const fileList = await window.api.fs.listFiles(dirPath);
-      setFiles(fileList);
-      setCurrentDir(dirPath);
+      setChildrenByDir((prev) => ({ ...prev, [dirPath]: fileList }));
+      return fileList;
     } catch (error) {
       console.error('Error loading directory:', error);
-    } finally {
-      setLoading(false);
+      return [];
     }
   };
 
+  // ディレクトリと、その配下の展開されているフォルダを読み込む
+  // 存在しなくなったフォルダは展開の対象から外す
+  const loadExpandedDirectory = async (dirPath: string, expanded: Set<string>) => {
+    const fileList = await loadDirectory(dirPath);
+    await Promise.all(
+      fileList
+        .filter((file) => file.isDirectory && expanded.has(file.path))
+        .map((file) => loadExpandedDirectory(file.path, expanded))
+    );
+  };
+
   // 初期ロード
   useEffect(() => {
     const loadSettings = async () => {
       try {
         const savedSettings = await window.api.app.getSettings();
-        if (savedSettings) {
-          setRootDir(savedSettings.rootDirectory.path);
-          loadDirectory(savedSettings.rootDirectory.path);
+        const rootPath = savedSettings?.rootDirectory.path;
+        if (rootPath) {
+          const expanded = loadExpandedPaths(rootPath);
+          setRootDir(rootPath);
+          setExpandedPaths(expanded);
+          await loadExpandedDirectory(rootPath, expanded);
         }
       } catch (error) {
         console.error('設定の読み込みに失敗しました:', error);
+      } finally {
+        setHasLoadedSettings(true);
       }
     };
     loadSettings();
   }, []);
 
-  // ディレクトリをクリックしたときの処理
+  // 展開したフォルダを次回の起動時のために保存する
+  useEffect(() => {
+    if (!rootDir) return;
+    localStorage.setItem(getExpandedStorageKey(rootDir), JSON.stringify([...expandedPaths]));
+  }, [rootDir, expandedPaths]);
+
+  // 外部からの再読み込み要求（プルなど）では、表示中のディレクトリだけを読み込み直す
+  useEffect(() => {
+    if (!refreshKey || !rootDir) return;
+    loadExpandedDirectory(rootDir, expandedPaths);
+  }, [refreshKey]);
+
+  // ファイルが変更されたら（外部のエディターやターミナルでの変更を含む）、読み込み済みの親のフォルダだけを読み込み直す
+  useEffect(() => {
+    return window.api.fs.onFilesChanged((filePaths) => {
+      const dirPaths = new Set<string>();
+      filePaths.forEach((filePath) => {
+        if (childrenByDir[getParentPath(filePath)]) dirPaths.add(getParentPath(filePath));
+        if (childrenByDir[filePath]) dirPaths.add(filePath);
+      });
+      dirPaths.forEach(async (dirPath) => {
+        // 一覧の取得は存在しないディレクトリを作成してしまうため、削除されたフォルダは読み込まずに取り除く
+        if (dirPath !== rootDir) {
+          try {
+            await window.api.fs.getFileInfo(dirPath);
+          } catch {
+            forgetPath(dirPath);
+            return;
+          }
+        }
+        loadDirectory(dirPath);
+      });
+    });
+  }, [rootDir, childrenByDir]);
+
+  // 開いているファイルの親のフォルダを展開する
+  useEffect(() => {
+    if (!activeFile || !rootDir || !isSameOrDescendant(activeFile, rootDir)) return;
+
+    const revealFile = async () => {
+      const ancestors: string[] = [];
+      for (let dir = getParentPath(activeFile); dir.length > rootDir.length; ) {
+        ancestors.unshift(dir);
+        dir = getParentPath(dir);
+      }
+      setExpandedPaths((prev) => new Set([...prev, ...ancestors]));
+      for (const dir of ancestors) {
+        if (!childrenByDir[dir]) await loadDirectory(dir);
+      }
+    };
+    revealFile();
+  }, [activeFile, rootDir]);
+
+  // 開いているファイルが表示されたらスクロールして見えるようにする
+  useEffect(() => {
+    if (!activeFile) return;
+    const element = listRef.current?.querySelector(`[data-path="${CSS.escape(activeFile)}"]`);
+    element?.scrollIntoView({ block: 'nearest' });
+  }, [activeFile, childrenByDir]);
+
+  // フォルダの展開・折りたたみ（初めて展開したときに内容を読み込む）
   const handleDirectoryClick = (dirPath: string) => {
-    loadDirectory(dirPath);
+    const isExpanded = expandedPaths.has(dirPath);
+    setExpandedPaths((prev) => {
+      const next = new Set(prev);
+      if (isExpanded) {
+        next.delete(dirPath);
+      } else {
+        next.add(dirPath);
+      }
+      return next;
+    });
+    if (!isExpanded && !childrenByDir[dirPath]) {
+      loadDirectory(dirPath);
+    }
   };
 
   // ファイルをクリックしたときの処理
@@ -67,31 +202,134 @@ export const FileTree: React.FC<FileTreeProps> = ({ onFileSelect, onSettingsClic
     }
   };
 
-  // 親ディレクトリに戻る
-  const handleBackClick = () => {
-    if (currentDir) {
-      const parentDir = currentDir.split('/').slice(0, -1).join('/');
-      loadDirectory(parentDir.length > 0 ? parentDir : null);
-    }
+  // 削除や名前の変更で存在しなくなったパスを、読み込み済みの内容と展開状態から取り除く
+  const forgetPath = (targetPath: string) => {
+    setChildrenByDir((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([dirPath]) => !isSameOrDescendant(dirPath, targetPath))
+      )
+    );
+    setExpandedPaths(
+      (prev) => new Set([...prev].filter((dirPath) => !isSameOrDescendant(dirPath, targetPath)))
+    );
+  };
+
+  // 移動や名前の変更をしたフォルダの展開状態を引き継ぎ、展開していた場合は変更後のパスで読み込む
+  const applyMovedPath = async (fromPath: string, toPath: string) => {
+    const movedExpanded = [...expandedPaths]
+      .filter((dirPath) => isSameOrDescendant(dirPath, fromPath))
+      .map((dirPath) => toPath + dirPath.slice(fromPath.length));
+    forgetPath(fromPath);
+    const expanded = new Set([...expandedPaths, ...movedExpanded]);
+    setExpandedPaths((prev) => new Set([...prev, ...movedExpanded]));
+    if (expanded.has(toPath)) await loadExpandedDirectory(toPath, expanded);
+    onFileMoved?.(fromPath, toPath);
   };
 
   const handleRename = async (file: FileItem, newName: string) => {
-    await window.api.fs.renameFile(file.path, newName);
-    loadDirectory(currentDir);
+    handleCloseMenu();
+    const parentPath = getParentPath(file.path);
+    try {
+      await window.api.fs.renameFile(file.path, newName);
+    } catch (error) {
+      console.error('Error renaming file:', error);
+      return;
+    }
+    await applyMovedPath(file.path, `${parentPath}/${newName}`);
+    await loadDirectory(parentPath);
   };
 
+  // ドラッグ中のファイルやフォルダを指定したフォルダに移動できるかどうか
+  // （今と同じフォルダや、フォルダ自身とその配下には移動できない）
+  const canDropInto = (dirPath: string) =>
+    !!draggingPath &&
+    getParentPath(draggingPath) !== dirPath &&
+    !isSameOrDescendant(dirPath, draggingPath);
+
+  const handleDragStart = (e: React.DragEvent, file: FileItem) => {
+    e.stopPropagation();
+    e.dataTransfer.setData('text/plain', file.path);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggingPath(file.path);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingPath(null);
+    setDropTargetPath(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, dirPath: string) => {
+    e.stopPropagation();
+    if (!canDropInto(dirPath)) {
+      setDropTargetPath(null);
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTargetPath(dirPath);
+  };
+
+  // ドロップしたフォルダに移動する（同じ名前がある場合は番号を付けた名前になる）
+  const handleDrop = async (e: React.DragEvent, dirPath: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const sourcePath = draggingPath;
+    handleDragEnd();
+    if (!sourcePath || !canDropInto(dirPath)) return;
+
+    let movedPath: string;
+    try {
+      movedPath = await window.api.fs.move(sourcePath, dirPath);
+    } catch (error) {
+      console.error('Error moving file:', error);
+      return;
+    }
+    await applyMovedPath(sourcePath, movedPath);
+    if (dirPath !== rootDir) {
+      setExpandedPaths((prev) => new Set([...prev, dirPath]));
+    }
+    await Promise.all([loadDirectory(getParentPath(sourcePath)), loadDirectory(dirPath)]);
+  };
+
+  // 削除したファイルやフォルダはゴミ箱に移動し、ゴミ箱から元に戻せるようにする
   const handleDeleteClick = async (file: FileItem) => {
-    if (file.isDirectory) {
-      await window.api.fs.removeDirectory(file.path);
-    } else {
-      await window.api.fs.removeFile(file.path);
+    handleCloseMenu();
+    const message = file.isDirectory
+      ? `フォルダ ${file.name} とその中身をゴミ箱に移動しますか？`
+      : `${file.name} をゴミ箱に移動しますか？`;
+    if (!window.confirm(message)) return;
+
+    try {
+      await window.api.fs.moveToTrash(file.path);
+    } catch (error) {
+      console.error('Error moving to trash:', error);
+      return;
+    }
+    forgetPath(file.path);
+    await loadDirectory(getParentPath(file.path));
+  };
+
+  // ゴミ箱から戻したときは、読み込み済みの最も近い親のフォルダを読み込み直す
+  // （元のフォルダが削除されていた場合は作り直されるため）
+  const handleRestored = async (restoredPath: string) => {
+    let dirPath = getParentPath(restoredPath);
+    while (!childrenByDir[dirPath] && rootDir && dirPath.length > rootDir.length) {
+      dirPath = getParentPath(dirPath);
     }
-    loadDirectory(currentDir);
+    if (childrenByDir[dirPath]) await loadDirectory(dirPath);
+  };
+
+  // フォルダの中にファイルやフォルダを作成したときは、そのフォルダを展開して読み込み直す
+  const handleCreated = async (dirPath: string) => {
+    handleCloseMenu();
+    setExpandedPaths((prev) => new Set([...prev, dirPath]));
+    await loadDirectory(dirPath);
   };
 
   // 右クリックをしたときの処理
   const handleRightClick = (e: React.MouseEvent, file: FileItem) => {
     e.preventDefault();
+    e.stopPropagation();
     setSelectedFile(file);
     setMenuPosition({ x: e.clientX, y: e.clientY });
   };
@@ -120,9 +358,74 @@ export const FileTree: React.FC<FileTreeProps> = ({ onFileSelect, onSettingsClic
     };
   }, [selectedFile]);
 
+  // ディレクトリの内容を再帰的に表示する
+  const renderItems = (dirPath: string, depth: number): React.ReactNode => {
+    const files = childrenByDir[dirPath];
+    if (!files) {
+      return (
+        <li className="py-1 text-sm text-gray-400" style={{ paddingLeft: depth * 16 + 12 }}>
+          読み込み中...
+        </li>
+      );
+    }
+
+    return files.map((file) => {
+      const isExpanded = file.isDirectory && expandedPaths.has(file.path);
+      const isActive = file.path === activeFile;
+      // ファイルの上にドロップした場合は、そのファイルがあるフォルダに移動する
+      const dropDirPath = file.isDirectory ? file.path : getParentPath(file.path);
+      return (
+        <li key={file.path}>
+          <button
+            data-path={file.path}
+            className={`flex w-full items-center rounded-md py-1.5 pr-3 transition-colors duration-150 hover:bg-gray-50 ${
+              file.isDirectory ? 'text-blue-600' : 'text-gray-700'
+            } ${isActive ? 'bg-blue-100 font-medium' : ''} ${
+              selectedFile?.path === file.path ? 'bg-blue-50' : ''
+            } ${isDisabled(file) ? 'cursor-not-allowed' : 'cursor-pointer'} ${
+              draggingPath === file.path ? 'opacity-50' : ''
+            } ${dropTargetPath === file.path ? 'bg-blue-50 ring-1 ring-blue-300' : ''}`}
+            style={{ paddingLeft: depth * 16 + 8 }}
+            draggable={!isDisabled(file)}
+            onDragStart={(e) => handleDragStart(e, file)}
+            onDragEnd={handleDragEnd}
+            onDragOver={(e) => handleDragOver(e, dropDirPath)}
+            onDrop={(e) => handleDrop(e, dropDirPath)}
+            onClick={() =>
+              file.isDirectory ? handleDirectoryClick(file.path) : handleFileClick(file.path)
+            }
+            onContextMenu={(e) => handleRightClick(e, file)}
+            disabled={isDisabled(file)}
+          >
+            {file.isDirectory ? (
+              <>
+                {isExpanded ? (
+                  <ChevronDown className="mr-1 h-4 w-4 flex-shrink-0" />
+                ) : (
+                  <ChevronRight className="mr-1 h-4 w-4 flex-shrink-0" />
+                )}
+                {isExpanded ? (
+                  <FolderOpen className="mr-2 h-5 w-5 flex-shrink-0" />
+                ) : (
+                  <FolderIcon className="mr-2 h-5 w-5 flex-shrink-0" />
+                )}
+              </>
+            ) : (
+              <FileIcon className="mr-2 ml-5 h-5 w-5 flex-shrink-0" />
+            )}
+            <span className="truncate">{file.name}</span>
+          </button>
+          {isExpanded && <ul>{renderItems(file.path, depth + 1)}</ul>}
+        </li>
+      );
+    });
+  };
+
+  const rootFiles = rootDir ? childrenByDir[rootDir] : undefined;
+
   return (
     <div className="mt-4 h-fit rounded-lg border border-gray-100 bg-white p-5 shadow-md">
-      {loading && !rootDir ? (
+      {hasLoadedSettings && !rootDir ? (
         <div className="py-8 text-center">
           <p className="mb-4 text-gray-600">ルートディレクトリが設定されていません</p>
           <button
@@ -135,55 +438,49 @@ export const FileTree: React.FC<FileTreeProps> = ({ onFileSelect, onSettingsClic
       ) : (
         <>
           <div className="mb-4 flex items-center justify-between border-b border-gray-100 pb-3">
-            <button
-              onClick={handleBackClick}
-              disabled={currentDir === rootDir}
-              className="flex items-center gap-1 rounded-md bg-gray-100 px-3 py-1.5 text-gray-700 transition-colors duration-200 hover:bg-gray-200 disabled:cursor-not-allowed disabled:opacity-40"
-            >
-              <ChevronLeft className="h-4 w-4" />
-              戻る
-            </button>
-            <span className="ml-2 max-w-[70%] truncate text-sm font-medium text-gray-600">
-              {currentDir === rootDir ? 'ルート' : currentDir}
+            <span className="max-w-[70%] truncate text-sm font-medium text-gray-600">
+              {rootDir ? rootDir.slice(rootDir.lastIndexOf('/') + 1) : ''}
             </span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setIsTrashOpen(true)}
+                className="rounded-md p-1.5 text-gray-500 transition-colors duration-200 hover:bg-gray-100"
+                title="ゴミ箱"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => setExpandedPaths(new Set())}
+                disabled={expandedPaths.size === 0}
+                className="rounded-md p-1.5 text-gray-500 transition-colors duration-200 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-40"
+                title="すべて折りたたむ"
+              >
+                <ChevronsDownUp className="h-4 w-4" />
+              </button>
+            </div>
           </div>
 
-          {loading ? (
+          {!rootFiles ? (
             <div className="flex h-40 items-center justify-center">
               <div className="h-8 w-8 animate-spin rounded-full border-t-2 border-b-2 border-blue-500"></div>
               <p className="ml-3 text-gray-600">読み込み中...</p>
             </div>
           ) : (
-            <ul className="h-[calc(100vh-300px)] space-y-1 overflow-y-auto pr-1">
-              {files.length === 0 ? (
+            <ul
+              ref={listRef}
+              className={`h-[calc(100vh-300px)] space-y-0.5 overflow-y-auto rounded-md pr-1 ${
+                rootDir && dropTargetPath === rootDir ? 'ring-1 ring-blue-300' : ''
+              }`}
+              onDragOver={(e) => rootDir && handleDragOver(e, rootDir)}
+              onDrop={(e) => rootDir && handleDrop(e, rootDir)}
+            >
+              {rootFiles.length === 0 ? (
                 <li className="rounded-md bg-gray-50 py-8 text-center text-gray-500">
                   <Sparkles className="mx-auto mb-2 h-10 w-10 text-gray-400" />
                   <p>ファイルがありません</p>
                 </li>
               ) : (
-                files.map((file) => (
-                  <li key={file.path} onContextMenu={(e) => handleRightClick(e, file)}>
-                    <button
-                      className={`flex items-center rounded-md px-3 py-2.5 transition-colors duration-150 hover:bg-gray-50 ${
-                        file.isDirectory ? 'text-blue-600' : 'text-gray-700'
-                      } ${selectedFile?.path === file.path ? 'bg-blue-50' : ''} ${isDisabled(file) ? 'cursor-not-allowed' : 'cursor-pointer'}`}
-                      onClick={() =>
-                        file.isDirectory
-                          ? handleDirectoryClick(file.path)
-                          : handleFileClick(file.path)
-                      }
-                      onContextMenu={(e) => handleRightClick(e, file)}
-                      disabled={isDisabled(file)}
-                    >
-                      {file.isDirectory ? (
-                        <FolderIcon className="mr-2 h-5 w-5 flex-shrink-0" />
-                      ) : (
-                        <FileIcon className="mr-2 h-5 w-5 flex-shrink-0" />
-                      )}
-                      <span className="truncate">{file.name}</span>
-                    </button>
-                  </li>
-                ))
+                renderItems(rootDir as string, 0)
               )}
             </ul>
           )}
@@ -195,8 +492,13 @@ export const FileTree: React.FC<FileTreeProps> = ({ onFileSelect, onSettingsClic
               handleClose={handleCloseMenu}
               handleRename={handleRename}
               handleDeleteClick={handleDeleteClick}
+              handleCreated={handleCreated}
             />
           )}
+
+          {isTrashOpen && (
+            <TrashDialog onRestored={handleRestored} onClose={() => setIsTrashOpen(false)} />
+          )}
         </>
       )}
     </div>
@@ -209,6 +511,8 @@ interface FileMenuProps {
   handleClose: () => void;
   handleRename: (file: FileItem, newName: string) => void;
   handleDeleteClick: (file: FileItem) => void;
+  // フォルダの中にファイルやフォルダを作成したときに呼ばれる
+  handleCreated: (dirPath: string) => void;
 }
 
 const FileMenu = ({
@@ -217,6 +521,7 @@ const FileMenu = ({
   handleClose,
   handleRename,
   handleDeleteClick,
+  handleCreated,
 }: FileMenuProps) => {
   const [isRenaming, setIsRenaming] = useState<boolean>(false);
   const [newName, setNewName] = useState(file.name);
@@ -264,8 +569,7 @@ const FileMenu = ({
       } else {
         await window.api.fs.createDirectory(`${file.path}/${newItemName}`);
       }
-      // 親コンポーネントのloadDirectoryを呼び出す
-      window.api.fs.listFiles(file.path);
+      handleCreated(file.path);
       setIsCreatingNew(false);
       setNewItemName('');
       setNewItemType(null);
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { FileIcon, FolderIcon, RotateCcw, Trash2 } from 'lucide-react';
+import { TrashItem } from '../../../types/trash';
+
+interface TrashDialogProps {
+  // 元の場所に戻したファイルやフォルダの絶対パスを受け取る
+  onRestored: (restoredPath: string) => void;
+  onClose: () => void;
+}
+
+// 削除した日時を表示用の文字列に変換する関数
+const formatDate = (isoString: string): string => {
+  return new Date(isoString).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// ゴミ箱に移動したファイルやフォルダを一覧し、元に戻すか完全に削除するダイアログ
+export const TrashDialog: React.FC<TrashDialogProps> = ({ onRestored, onClose }) => {
+  const [items, setItems] = useState<TrashItem[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const loadItems = async () => {
+    try {
+      setItems(await window.api.fs.listTrash());
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      setErrorMessage('ゴミ箱の読み込みに失敗しました');
+      setItems([]);
+    }
+  };
+
+  useEffect(() => {
+    loadItems();
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setIsLoading(true);
+      setErrorMessage('');
+      onRestored(await window.api.fs.restoreFromTrash(item.id));
+      await loadItems();
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      setErrorMessage(`${item.name} を元に戻せませんでした`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePurge = async (item?: TrashItem) => {
+    const message = item
+      ? `${item.name} を完全に削除しますか？\nこの操作は取り消せません。`
+      : 'ゴミ箱を空にしますか？\nこの操作は取り消せません。';
+    if (!window.confirm(message)) return;
+
+    try {
+      setIsLoading(true);
+      setErrorMessage('');
+      await window.api.fs.purgeTrash(item?.id);
+      await loadItems();
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      setErrorMessage('完全に削除できませんでした');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <dialog open className="modal modal-open">
+      <div className="modal-box flex max-h-[80vh] max-w-2xl flex-col">
+        <h3 className="flex items-center gap-2 font-bold">
+          <Trash2 className="h-5 w-5" />
+          ゴミ箱
+        </h3>
+
+        {items === null ? (
+          <div className="flex h-24 items-center justify-center">
+            <span className="loading loading-spinner loading-md"></span>
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-base-content/70 py-8 text-center text-sm">ゴミ箱は空です</p>
+        ) : (
+          <ul className="mt-4 space-y-2 overflow-y-auto text-sm">
+            {items.map((item) => (
+              <li
+                key={item.id}
+                className="bg-base-200 flex items-center justify-between gap-2 rounded p-2"
+              >
+                <div className="flex min-w-0 items-center gap-2">
+                  {item.isDirectory ? (
+                    <FolderIcon className="h-4 w-4 flex-shrink-0 text-blue-600" />
+                  ) : (
+                    <FileIcon className="h-4 w-4 flex-shrink-0" />
+                  )}
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium">{item.name}</span>
+                    <span className="text-base-content/70 block truncate text-xs">
+                      {item.originalPath} ・ {formatDate(item.deletedAt)}
+                    </span>
+                  </span>
+                </div>
+                <div className="flex flex-shrink-0 gap-1">
+                  <button
+                    onClick={() => handleRestore(item)}
+                    disabled={isLoading}
+                    className="btn btn-ghost btn-xs gap-1"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    元に戻す
+                  </button>
+                  <button
+                    onClick={() => handlePurge(item)}
+                    disabled={isLoading}
+                    className="btn btn-ghost btn-xs text-error"
+                  >
+                    完全に削除
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {errorMessage && (
+          <div className="alert alert-error mt-2">
+            <p>{errorMessage}</p>
+          </div>
+        )}
+
+        <div className="modal-action">
+          <button
+            onClick={() => handlePurge()}
+            disabled={isLoading || !items || items.length === 0}
+            className="btn btn-error btn-outline btn-sm"
+          >
+            ゴミ箱を空にする
+          </button>
+          <button onClick={onClose} disabled={isLoading} className="btn btn-ghost btn-sm">
+            閉じる
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onClose}></div>
+    </dialog>
+  );
+};
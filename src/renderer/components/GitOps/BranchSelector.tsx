@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Check, Edit, GitBranch, Plus, Trash2 } from 'lucide-react';
+import { BranchList } from '../../../types/gitBranch';
+
+interface BranchSelectorProps {
+  branchList: BranchList | null;
+  isLoading: boolean;
+  onCheckout: (name: string) => Promise<void>;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (oldName: string, newName: string) => Promise<void>;
+  onDelete: (name: string) => Promise<void>;
+}
+
+// ブランチの一覧表示と作成・切り替え・リネーム・削除
+export const BranchSelector: React.FC<BranchSelectorProps> = ({
+  branchList,
+  isLoading,
+  onCheckout,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [renamingBranch, setRenamingBranch] = useState<string | null>(null);
+  const [inputValue, setInputValue] = useState<string>('');
+
+  if (!branchList) return null;
+
+  const resetInput = () => {
+    setIsCreating(false);
+    setRenamingBranch(null);
+    setInputValue('');
+  };
+
+  const handleSubmit = async () => {
+    const name = inputValue.trim();
+    if (!name) return;
+
+    if (renamingBranch) {
+      await onRename(renamingBranch, name);
+    } else {
+      await onCreate(name);
+    }
+    resetInput();
+  };
+
+  return (
+    <div className="card bg-base-200 p-3 text-sm">
+      <div className="mb-2 flex items-center justify-between">
+        <p className="flex items-center gap-1 font-medium">
+          <GitBranch className="h-4 w-4" />
+          {branchList.current ?? '(detached HEAD)'}
+        </p>
+        <div className="tooltip tooltip-left" data-tip="新しいブランチ">
+          <button
+            onClick={() => {
+              resetInput();
+              setIsCreating(true);
+            }}
+            disabled={isLoading}
+            className="btn btn-ghost btn-xs btn-square"
+          >
+            <Plus className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+
+      {(isCreating || renamingBranch) && (
+        <div className="mb-2 flex gap-2">
+          <input
+            type="text"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSubmit();
+              if (e.key === 'Escape') resetInput();
+            }}
+            placeholder={renamingBranch ? `${renamingBranch} の新しい名前` : '新しいブランチ名'}
+            className="input input-bordered input-sm flex-1"
+            autoFocus
+          />
+          <button
+            onClick={handleSubmit}
+            disabled={!inputValue.trim() || isLoading}
+            className="btn btn-primary btn-sm"
+          >
+            {renamingBranch ? '変更' : '作成'}
+          </button>
+          <button onClick={resetInput} className="btn btn-ghost btn-sm">
+            キャンセル
+          </button>
+        </div>
+      )}
+
+      <ul className="ml-2 space-y-1">
+        {branchList.branches.map((branch) => {
+          const isCurrent = branch === branchList.current;
+          return (
+            <li
+              key={branch}
+              className="group hover:bg-base-300 flex items-center justify-between rounded px-1 py-1 transition-colors duration-150"
+            >
+              <button
+                onClick={() => !isCurrent && onCheckout(branch)}
+                disabled={isLoading || isCurrent}
+                className={`flex max-w-[70%] items-center gap-1 truncate text-left ${
+                  isCurrent ? 'text-primary font-medium' : 'cursor-pointer'
+                }`}
+                title={isCurrent ? '現在のブランチ' : `${branch} に切り替える`}
+              >
+                {isCurrent && <Check className="h-3 w-3 flex-shrink-0" />}
+                <span className="truncate">{branch}</span>
+              </button>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                <button
+                  onClick={() => {
+                    resetInput();
+                    setRenamingBranch(branch);
+                    setInputValue(branch);
+                  }}
+                  disabled={isLoading}
+                  className="btn btn-ghost btn-xs"
+                  title="名前を変更"
+                >
+                  <Edit className="h-3 w-3" />
+                </button>
+                {!isCurrent && (
+                  <button
+                    onClick={() => onDelete(branch)}
+                    disabled={isLoading}
+                    className="btn btn-ghost btn-xs text-error"
+                    title="削除"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { ConflictRegionType, FileConflict } from '../../../types/gitConflict';
+
+interface ConflictResolverProps {
+  filepath: string;
+  onResolved: (filepath: string) => void;
+  onClose: () => void;
+}
+
+// コンフリクト領域ごとの解決結果（未解決の場合はnull）
+type Resolutions = Record<number, string | null>;
+
+const ConflictColumn: React.FC<{ label: string; lines: string[] }> = ({ label, lines }) => (
+  <div className="flex min-w-0 flex-col">
+    <p className="text-base-content/70 mb-1 text-xs font-medium">{label}</p>
+    <pre className="bg-base-200 flex-1 overflow-x-auto rounded p-2 font-mono text-xs whitespace-pre-wrap">
+      {lines.length > 0 ? lines.join('\n') : <span className="text-base-content/50">(なし)</span>}
+    </pre>
+  </div>
+);
+
+// コンフリクトしているファイルを領域ごとに解決するビュー
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({
+  filepath,
+  onResolved,
+  onClose,
+}) => {
+  const [conflict, setConflict] = useState<FileConflict | null>(null);
+  const [resolutions, setResolutions] = useState<Resolutions>({});
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  useEffect(() => {
+    const loadConflict = async () => {
+      setIsLoading(true);
+      setErrorMessage('');
+      setResolutions({});
+      try {
+        setConflict(await window.api.git.getConflict(filepath));
+      } catch (error) {
+        console.error('Error loading conflict:', error);
+        setErrorMessage('コンフリクトの取得に失敗しました');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadConflict();
+  }, [filepath]);
+
+  const isAllResolved = useMemo(() => {
+    if (!conflict) return false;
+    return conflict.regions.every(
+      (region, index) =>
+        region.type === ConflictRegionType.RESOLVED ||
+        (resolutions[index] !== undefined && resolutions[index] !== null)
+    );
+  }, [conflict, resolutions]);
+
+  const setResolution = (index: number, lines: string[] | string | null) => {
+    setResolutions((prev) => ({
+      ...prev,
+      [index]: Array.isArray(lines) ? lines.join('\n') : lines,
+    }));
+  };
+
+  // すべての領域を結合してファイルに書き込み、ステージングする
+  const handleResolve = async () => {
+    if (!conflict || !isAllResolved) return;
+
+    const content = conflict.regions
+      .map((region, index) =>
+        region.type === ConflictRegionType.RESOLVED ? region.lines.join('\n') : resolutions[index]
+      )
+      .join('\n');
+
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      await window.api.git.resolveConflict(filepath, content);
+      onResolved(filepath);
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      setErrorMessage('コンフリクトの解決に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="card-title">
+          {filepath.split('/').pop()}
+          <span className="badge badge-error font-normal">コンフリクト</span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            className="btn btn-primary btn-sm"
+            onClick={handleResolve}
+            disabled={!isAllResolved || isLoading}
+          >
+            <Check className="h-4 w-4" />
+            解決してステージ
+          </button>
+          <button className="btn btn-ghost btn-sm btn-square" onClick={onClose} title="閉じる">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {isLoading && !conflict && (
+        <div className="flex h-40 items-center justify-center">
+          <span className="loading loading-spinner loading-lg text-primary"></span>
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="alert alert-error">
+          <p>{errorMessage}</p>
+        </div>
+      )}
+
+      {conflict && (
+        <div className="flex-1 space-y-4 overflow-y-auto">
+          {conflict.regions.map((region, index) => {
+            if (region.type === ConflictRegionType.RESOLVED) {
+              return (
+                <pre
+                  key={index}
+                  className="text-base-content/60 px-2 font-mono text-xs whitespace-pre-wrap"
+                >
+                  {region.lines.join('\n')}
+                </pre>
+              );
+            }
+
+            const resolution = resolutions[index];
+            return (
+              <div
+                key={index}
+                className={`rounded-md border p-2 ${
+                  resolution !== undefined && resolution !== null
+                    ? 'border-success'
+                    : 'border-error'
+                }`}
+              >
+                <div className="grid grid-cols-3 gap-2">
+                  <ConflictColumn label="自分の変更" lines={region.ours} />
+                  <ConflictColumn label="共通の祖先" lines={region.base} />
+                  <ConflictColumn label="相手の変更" lines={region.theirs} />
+                </div>
+                <div className="mt-2 flex gap-2">
+                  <button
+                    className="btn btn-outline btn-xs"
+                    onClick={() => setResolution(index, region.ours)}
+                  >
+                    自分の変更を採用
+                  </button>
+                  <button
+                    className="btn btn-outline btn-xs"
+                    onClick={() => setResolution(index, region.theirs)}
+                  >
+                    相手の変更を採用
+                  </button>
+                  <button
+                    className="btn btn-outline btn-xs"
+                    onClick={() => setResolution(index, [...region.ours, ...region.theirs])}
+                  >
+                    両方を採用
+                  </button>
+                  {resolution !== undefined && resolution !== null && (
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => setResolution(index, null)}
+                    >
+                      やり直す
+                    </button>
+                  )}
+                </div>
+                {resolution !== undefined && resolution !== null && (
+                  <textarea
+                    value={resolution}
+                    onChange={(e) => setResolution(index, e.target.value)}
+                    className="textarea textarea-bordered mt-2 w-full font-mono text-xs"
+                    rows={Math.max(3, resolution.split('\n').length)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
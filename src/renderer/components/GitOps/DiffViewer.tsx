@@ -0,0 +1,399 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Minus, Plus, X } from 'lucide-react';
+import { diffWordsWithSpace } from 'diff';
+import {
+  DiffHunk,
+  DiffLine,
+  DiffLineSelection,
+  DiffLineType,
+  DiffTarget,
+  DiffTargetType,
+  FileDiff,
+} from '../../../types/gitDiff';
+import { Editor } from '../Editor/Editor';
+
+interface DiffViewerProps {
+  filepath: string;
+  target: DiffTargetType;
+  onClose: () => void;
+  // 一部の行をステージ・ステージ解除したときに呼ばれる
+  onStagingChanged?: () => void;
+}
+
+type ViewMode = 'inline' | 'split' | 'rendered';
+
+type WordSegment = {
+  value: string;
+  highlighted: boolean;
+};
+
+type SplitRow = {
+  left: DiffLine | null;
+  right: DiffLine | null;
+};
+
+// 削除行と追加行を組にして単語単位の差分を求める関数
+const getWordSegments = (hunk: DiffHunk): Map<DiffLine, WordSegment[]> => {
+  const segments = new Map<DiffLine, WordSegment[]>();
+  let index = 0;
+
+  while (index < hunk.lines.length) {
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < hunk.lines.length && hunk.lines[index].type === DiffLineType.REMOVED) {
+      removed.push(hunk.lines[index++]);
+    }
+    while (index < hunk.lines.length && hunk.lines[index].type === DiffLineType.ADDED) {
+      added.push(hunk.lines[index++]);
+    }
+    if (removed.length === 0 && added.length === 0) {
+      index++;
+      continue;
+    }
+
+    // 同じ位置にある削除行と追加行を変更された行とみなす
+    for (let i = 0; i < Math.min(removed.length, added.length); i++) {
+      const changes = diffWordsWithSpace(removed[i].content, added[i].content);
+      segments.set(
+        removed[i],
+        changes
+          .filter((change) => !change.added)
+          .map((change) => ({ value: change.value, highlighted: !!change.removed }))
+      );
+      segments.set(
+        added[i],
+        changes
+          .filter((change) => !change.removed)
+          .map((change) => ({ value: change.value, highlighted: !!change.added }))
+      );
+    }
+  }
+
+  return segments;
+};
+
+// 左右に並べて表示するための行を組み立てる関数
+const getSplitRows = (hunk: DiffHunk): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  hunk.lines.forEach((line) => {
+    if (line.type === DiffLineType.REMOVED) {
+      // 追加行の後に削除行が来た場合は別の変更として扱う
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.type === DiffLineType.ADDED) {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+
+  return rows;
+};
+
+const lineClassName = (line: DiffLine | null) => {
+  if (!line) return 'bg-base-200';
+  if (line.type === DiffLineType.ADDED) return 'bg-success/10';
+  if (line.type === DiffLineType.REMOVED) return 'bg-error/10';
+  return '';
+};
+
+const LineContent: React.FC<{ line: DiffLine; segments?: WordSegment[] }> = ({
+  line,
+  segments,
+}) => {
+  if (!segments) return <>{line.content || ' '}</>;
+
+  const highlightClass = line.type === DiffLineType.ADDED ? 'bg-success/30' : 'bg-error/30';
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <span key={index} className={`${highlightClass} rounded-sm`}>
+            {segment.value}
+          </span>
+        ) : (
+          <span key={index}>{segment.value}</span>
+        )
+      )}
+    </>
+  );
+};
+
+const LineNumber: React.FC<{ value: number | null }> = ({ value }) => (
+  <td className="text-base-content/50 w-10 pr-2 text-right align-top select-none">{value ?? ''}</td>
+);
+
+const linePrefix = (line: DiffLine) => {
+  if (line.type === DiffLineType.ADDED) return '+';
+  if (line.type === DiffLineType.REMOVED) return '-';
+  return ' ';
+};
+
+const isChangedLine = (line: DiffLine) => line.type !== DiffLineType.CONTEXT;
+
+// 選択された行を変更前・変更後の行番号に変換する関数
+const toLineSelection = (lines: DiffLine[]): DiffLineSelection => ({
+  removed: lines.flatMap((line) =>
+    line.type === DiffLineType.REMOVED && line.oldLineNumber !== null ? [line.oldLineNumber] : []
+  ),
+  added: lines.flatMap((line) =>
+    line.type === DiffLineType.ADDED && line.newLineNumber !== null ? [line.newLineNumber] : []
+  ),
+});
+
+const InlineHunk: React.FC<{
+  hunk: DiffHunk;
+  selectedLines: Set<DiffLine>;
+  onToggleLine: (line: DiffLine) => void;
+}> = ({ hunk, selectedLines, onToggleLine }) => {
+  const segments = useMemo(() => getWordSegments(hunk), [hunk]);
+
+  return (
+    <tbody>
+      {hunk.lines.map((line, index) => (
+        <tr key={index} className={lineClassName(line)}>
+          <td className="w-6 text-center align-top">
+            {isChangedLine(line) && (
+              <input
+                type="checkbox"
+                checked={selectedLines.has(line)}
+                onChange={() => onToggleLine(line)}
+                className="checkbox checkbox-xs"
+                title="この行を選択"
+              />
+            )}
+          </td>
+          <LineNumber value={line.oldLineNumber} />
+          <LineNumber value={line.newLineNumber} />
+          <td className="px-2 break-all whitespace-pre-wrap">
+            <span className="text-base-content/50 select-none">{linePrefix(line)} </span>
+            <LineContent line={line} segments={segments.get(line)} />
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  );
+};
+
+const SplitHunk: React.FC<{ hunk: DiffHunk }> = ({ hunk }) => {
+  const segments = useMemo(() => getWordSegments(hunk), [hunk]);
+  const rows = useMemo(() => getSplitRows(hunk), [hunk]);
+
+  return (
+    <tbody>
+      {rows.map((row, index) => (
+        <tr key={index}>
+          <LineNumber value={row.left?.oldLineNumber ?? null} />
+          <td className={`w-1/2 px-2 break-all whitespace-pre-wrap ${lineClassName(row.left)}`}>
+            {row.left && <LineContent line={row.left} segments={segments.get(row.left)} />}
+          </td>
+          <LineNumber value={row.right?.newLineNumber ?? null} />
+          <td className={`w-1/2 px-2 break-all whitespace-pre-wrap ${lineClassName(row.right)}`}>
+            {row.right && <LineContent line={row.right} segments={segments.get(row.right)} />}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  );
+};
+
+// ステージ済み・未ステージの変更の差分表示
+export const DiffViewer: React.FC<DiffViewerProps> = ({
+  filepath,
+  target,
+  onClose,
+  onStagingChanged,
+}) => {
+  const [diff, setDiff] = useState<FileDiff | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('inline');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  // 部分的にステージ・ステージ解除するために選択された行
+  const [selectedLines, setSelectedLines] = useState<Set<DiffLine>>(new Set());
+
+  const isMarkdown = filepath.endsWith('.md');
+  const isStaged = target === DiffTarget.STAGED;
+
+  const loadDiff = async () => {
+    setIsLoading(true);
+    setErrorMessage('');
+    setSelectedLines(new Set());
+    try {
+      setDiff(await window.api.git.diff(filepath, target));
+    } catch (error) {
+      console.error('Error loading diff:', error);
+      setErrorMessage('差分の取得に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDiff();
+    if (!isMarkdown && viewMode === 'rendered') setViewMode('inline');
+  }, [filepath, target]);
+
+  const toggleLine = (line: DiffLine) => {
+    setSelectedLines((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) {
+        next.delete(line);
+      } else {
+        next.add(line);
+      }
+      return next;
+    });
+  };
+
+  // 指定した行の変更だけをステージする（ステージ済みの変更の場合はステージから外す）
+  const handleApplyLines = async (lines: DiffLine[]) => {
+    const selection = toLineSelection(lines);
+    if (selection.removed.length === 0 && selection.added.length === 0) return;
+
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      if (isStaged) {
+        await window.api.git.unstageLines(filepath, selection);
+      } else {
+        await window.api.git.stageLines(filepath, selection);
+      }
+      onStagingChanged?.();
+      await loadDiff();
+    } catch (error) {
+      console.error('Error staging lines:', error);
+      setErrorMessage(isStaged ? 'ステージの解除に失敗しました' : 'ステージに失敗しました');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <h2 className="card-title">
+          {filepath.split('/').pop()}
+          <span className="badge badge-neutral font-normal">
+            {target === DiffTarget.STAGED ? 'ステージ済みの変更' : '未ステージの変更'}
+          </span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <div className="join">
+            <button
+              className={`btn btn-sm join-item ${viewMode === 'inline' ? 'btn-active' : ''}`}
+              onClick={() => setViewMode('inline')}
+            >
+              インライン
+            </button>
+            <button
+              className={`btn btn-sm join-item ${viewMode === 'split' ? 'btn-active' : ''}`}
+              onClick={() => setViewMode('split')}
+            >
+              左右に並べる
+            </button>
+            {isMarkdown && (
+              <button
+                className={`btn btn-sm join-item ${viewMode === 'rendered' ? 'btn-active' : ''}`}
+                onClick={() => setViewMode('rendered')}
+              >
+                プレビュー
+              </button>
+            )}
+          </div>
+          {selectedLines.size > 0 && (
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={() => handleApplyLines([...selectedLines])}
+              disabled={isLoading}
+            >
+              {isStaged ? <Minus className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+              {isStaged
+                ? `選択した${selectedLines.size}行のステージを解除`
+                : `選択した${selectedLines.size}行をステージ`}
+            </button>
+          )}
+          <button className="btn btn-ghost btn-sm btn-square" onClick={onClose} title="閉じる">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex h-40 items-center justify-center">
+          <span className="loading loading-spinner loading-lg text-primary"></span>
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="alert alert-error">
+          <p>{errorMessage}</p>
+        </div>
+      )}
+
+      {!isLoading && diff && (
+        <div className="flex-1 overflow-y-auto">
+          {diff.isBinary ? (
+            <p className="text-base-content/70 py-8 text-center">
+              バイナリファイルの差分は表示できません
+            </p>
+          ) : diff.hunks.length === 0 ? (
+            <p className="text-base-content/70 py-8 text-center">差分はありません</p>
+          ) : viewMode === 'rendered' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="mb-2 text-sm font-medium">変更前</p>
+                <Editor initialContent={diff.oldContent ?? ''} readOnly />
+              </div>
+              <div>
+                <p className="mb-2 text-sm font-medium">変更後</p>
+                <Editor initialContent={diff.newContent ?? ''} readOnly />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {diff.hunks.map((hunk, index) => (
+                <div key={index} className="rounded-md border border-gray-300">
+                  <div className="bg-base-200 flex items-center justify-between px-2 py-1">
+                    <p className="text-base-content/70 font-mono text-xs">
+                      @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                    </p>
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => handleApplyLines(hunk.lines.filter(isChangedLine))}
+                      disabled={isLoading}
+                    >
+                      {isStaged ? 'ハンクのステージを解除' : 'ハンクをステージ'}
+                    </button>
+                  </div>
+                  <table className="w-full table-fixed font-mono text-xs">
+                    {viewMode === 'split' ? (
+                      <SplitHunk hunk={hunk} />
+                    ) : (
+                      <InlineHunk
+                        hunk={hunk}
+                        selectedLines={selectedLines}
+                        onToggleLine={toggleLine}
+                      />
+                    )}
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   ChevronDown,
   ChevronRight,
@@ -10,17 +10,47 @@ import {
   GitBranch,
   Minus,
   Loader,
+  GitMerge,
+  Undo2,
+  RotateCcw,
+  WandSparkles,
 } from 'lucide-react';
 import {
   GitStatus,
   HeadStatus,
   StageStatus,
+  StatusChange,
   StatusMatrix,
   WorkdirStatus,
 } from '../../../types/gitStatus';
+import { PullStatus } from '../../../types/gitPull';
+import { BranchList, CheckoutStatus } from '../../../types/gitBranch';
+import { DiffTarget, DiffTargetType } from '../../../types/gitDiff';
+import { MergeState } from '../../../types/gitConflict';
+import { PushStatus } from '../../../types/gitPush';
+import { TrackingStatus } from '../../../types/gitTracking';
+import { LastCommitInfo } from '../../../types/gitCommit';
+import { SecretFinding } from '../../../types/gitSecret';
+import { BranchSelector } from './BranchSelector';
+import { PullRequestPanel } from './PullRequestPanel';
+import { StashPanel } from './StashPanel';
+import { SecretFindingsDialog } from './SecretFindingsDialog';
+
+// バックグラウンドでリモートを確認する間隔
+const FETCH_INTERVAL_MS = 5 * 60 * 1000;
 
 interface GitControlsProps {
   selectedFile: string | null;
+  // プルなどでファイルが更新されたときに呼ばれる（リポジトリからの相対パス）
+  onFilesChanged?: (filepaths: string[]) => void;
+  // ファイル名がクリックされたときに差分を表示する
+  onShowDiff?: (filepath: string, target: DiffTargetType) => void;
+  // コンフリクトしているファイルの解決ボタンが押されたときに呼ばれる
+  onResolveConflict?: (filepath: string) => void;
+  // 値が変わるたびにGitステータスを再取得する
+  refreshKey?: number;
+  // ステージした変更からコミットメッセージを自動で入力するかどうか
+  autoFillCommitMessage?: boolean;
 }
 
 interface FileItem {
@@ -37,8 +67,9 @@ const getFileName = (path: string): string => {
 const StagedFilesList: React.FC<{
   files: FileItem[];
   onUnstage: (filename: string) => Promise<void>;
+  onShowDiff?: (filename: string) => void;
   isLoading: boolean;
-}> = ({ files, onUnstage, isLoading }) => {
+}> = ({ files, onUnstage, onShowDiff, isLoading }) => {
   if (files.length === 0) return null;
 
   return (
@@ -50,9 +81,13 @@ const StagedFilesList: React.FC<{
             key={file.filename}
             className="group hover:bg-base-200 flex items-center justify-between rounded px-1 py-1 transition-colors duration-150"
           >
-            <span className="text-success max-w-[80%] truncate" title={file.filename}>
+            <button
+              onClick={() => onShowDiff?.(file.filename)}
+              className="text-success max-w-[80%] cursor-pointer truncate text-left"
+              title={file.filename}
+            >
               {getFileName(file.filename)}
-            </span>
+            </button>
             <button
               onClick={() => onUnstage(file.filename)}
               disabled={isLoading}
@@ -76,8 +111,10 @@ const StagedFilesList: React.FC<{
 const UnstagedFilesList: React.FC<{
   files: FileItem[];
   onStage: (filename: string) => Promise<void>;
+  onDiscard: (filename: string) => Promise<void>;
+  onShowDiff?: (filename: string) => void;
   isLoading: boolean;
-}> = ({ files, onStage, isLoading }) => {
+}> = ({ files, onStage, onDiscard, onShowDiff, isLoading }) => {
   if (files.length === 0) return null;
 
   return (
@@ -89,24 +126,70 @@ const UnstagedFilesList: React.FC<{
             key={file.filename}
             className="group hover:bg-base-200 flex items-center justify-between rounded px-1 py-1 transition-colors duration-150"
           >
-            <span
-              className={`${file.isDeleted ? 'text-error' : 'text-warning'} max-w-[80%] truncate`}
+            <button
+              onClick={() => onShowDiff?.(file.filename)}
+              className={`${file.isDeleted ? 'text-error' : 'text-warning'} max-w-[80%] cursor-pointer truncate text-left`}
               title={file.filename}
             >
               {getFileName(file.filename)}
+            </button>
+            <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+              <button
+                onClick={() => onDiscard(file.filename)}
+                disabled={isLoading}
+                className="btn btn-ghost btn-xs text-error"
+                title="変更を破棄"
+              >
+                <Undo2 className="h-3 w-3" />
+              </button>
+              <button
+                onClick={() => onStage(file.filename)}
+                disabled={isLoading}
+                className="btn btn-ghost btn-xs"
+                title="ステージングする"
+              >
+                {isLoading ? (
+                  <span className="loading loading-spinner loading-xs"></span>
+                ) : (
+                  <Plus className="h-3 w-3" />
+                )}
+                {isLoading ? '処理中...' : 'ステージ'}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const ConflictedFilesList: React.FC<{
+  files: FileItem[];
+  onResolve?: (filename: string) => void;
+  isLoading: boolean;
+}> = ({ files, onResolve, isLoading }) => {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="mb-2">
+      <p className="text-error mb-1 font-medium">コンフリクト:</p>
+      <ul className="ml-2 space-y-1">
+        {files.map((file) => (
+          <li
+            key={file.filename}
+            className="group hover:bg-base-200 flex items-center justify-between rounded px-1 py-1 transition-colors duration-150"
+          >
+            <span className="text-error max-w-[80%] truncate" title={file.filename}>
+              {getFileName(file.filename)}
             </span>
             <button
-              onClick={() => onStage(file.filename)}
+              onClick={() => onResolve?.(file.filename)}
               disabled={isLoading}
-              className="btn btn-ghost btn-xs opacity-0 group-hover:opacity-100"
-              title="ステージングする"
+              className="btn btn-error btn-outline btn-xs"
+              title="コンフリクトを解決する"
             >
-              {isLoading ? (
-                <span className="loading loading-spinner loading-xs"></span>
-              ) : (
-                <Plus className="h-3 w-3" />
-              )}
-              {isLoading ? '処理中...' : 'ステージ'}
+              <GitMerge className="h-3 w-3" />
+              解決
             </button>
           </li>
         ))}
@@ -120,15 +203,43 @@ const GitStatusDisplay: React.FC<{
   isLoading: boolean;
   onStageFile: (filename: string) => Promise<void>;
   onUnstageFile: (filename: string) => Promise<void>;
-}> = ({ gitStatus, isLoading, onStageFile, onUnstageFile }) => {
+  onDiscardFile: (filename: string) => Promise<void>;
+  onShowDiff?: (filename: string, target: DiffTargetType) => void;
+  onResolveConflict?: (filename: string) => void;
+}> = ({
+  gitStatus,
+  isLoading,
+  onStageFile,
+  onUnstageFile,
+  onDiscardFile,
+  onShowDiff,
+  onResolveConflict,
+}) => {
   if (!gitStatus) return null;
 
-  const hasChanges = gitStatus.staged.length > 0 || gitStatus.unstaged.length > 0;
+  const hasChanges =
+    gitStatus.staged.length > 0 || gitStatus.unstaged.length > 0 || gitStatus.conflicted.length > 0;
 
   return (
     <div className="card bg-base-200 p-3 text-sm">
-      <StagedFilesList files={gitStatus.staged} onUnstage={onUnstageFile} isLoading={isLoading} />
-      <UnstagedFilesList files={gitStatus.unstaged} onStage={onStageFile} isLoading={isLoading} />
+      <ConflictedFilesList
+        files={gitStatus.conflicted}
+        onResolve={onResolveConflict}
+        isLoading={isLoading}
+      />
+      <StagedFilesList
+        files={gitStatus.staged}
+        onUnstage={onUnstageFile}
+        onShowDiff={(filename) => onShowDiff?.(filename, DiffTarget.STAGED)}
+        isLoading={isLoading}
+      />
+      <UnstagedFilesList
+        files={gitStatus.unstaged}
+        onStage={onStageFile}
+        onDiscard={onDiscardFile}
+        onShowDiff={(filename) => onShowDiff?.(filename, DiffTarget.UNSTAGED)}
+        isLoading={isLoading}
+      />
       {!hasChanges && <p className="text-base-content/70 py-2 text-center">変更はありません</p>}
     </div>
   );
@@ -138,9 +249,30 @@ const GitActionButtons: React.FC<{
   onPush: () => Promise<void>;
   onPull: () => Promise<void>;
   isLoading: boolean;
-}> = ({ onPush, onPull, isLoading }) => {
+  remotes: string[];
+  pushRemote: string;
+  setPushRemote: (remote: string) => void;
+  tracking: TrackingStatus | null;
+}> = ({ onPush, onPull, isLoading, remotes, pushRemote, setPushRemote, tracking }) => {
+  // 上流ブランチとの差分はoriginにプッシュする場合のみ表示する
+  const showTracking = !!tracking?.upstream && pushRemote === 'origin';
   return (
     <div className="mb-4 flex space-x-2">
+      {remotes.length > 1 && (
+        <select
+          value={pushRemote}
+          onChange={(e) => setPushRemote(e.target.value)}
+          disabled={isLoading}
+          className="select select-bordered w-28"
+          title="プッシュ先のリモート"
+        >
+          {remotes.map((remote) => (
+            <option key={remote} value={remote}>
+              {remote}
+            </option>
+          ))}
+        </select>
+      )}
       <button onClick={onPush} disabled={isLoading} className="btn btn-success flex-1">
         {isLoading ? (
           <span className="loading loading-spinner loading-sm"></span>
@@ -148,6 +280,11 @@ const GitActionButtons: React.FC<{
           <Upload className="h-4 w-4" />
         )}
         {isLoading ? '処理中...' : 'プッシュ'}
+        {showTracking && tracking.ahead > 0 && (
+          <span className="badge badge-sm" title="プッシュしていないコミット">
+            ↑{tracking.ahead}
+          </span>
+        )}
       </button>
       <button onClick={onPull} disabled={isLoading} className="btn btn-warning flex-1">
         {isLoading ? (
@@ -156,28 +293,125 @@ const GitActionButtons: React.FC<{
           <Download className="h-4 w-4" />
         )}
         {isLoading ? '処理中...' : 'プル'}
+        {tracking?.upstream && tracking.behind > 0 && (
+          <span className="badge badge-sm" title="取り込んでいないリモートのコミット">
+            ↓{tracking.behind}
+          </span>
+        )}
       </button>
     </div>
   );
 };
 
+// バックグラウンドでのリモートの確認状況
+const FetchIndicator: React.FC<{
+  isFetching: boolean;
+  lastFetchedAt: Date | null;
+  onFetch: () => void;
+}> = ({ isFetching, lastFetchedAt, onFetch }) => {
+  return (
+    <div className="text-base-content/70 mb-2 flex items-center justify-end gap-1 text-xs">
+      {isFetching ? (
+        <>
+          <span className="loading loading-spinner loading-xs"></span>
+          リモートを確認中...
+        </>
+      ) : (
+        <>
+          {lastFetchedAt &&
+            `最終確認 ${lastFetchedAt.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}`}
+          <button onClick={onFetch} className="btn btn-ghost btn-xs" title="リモートを確認">
+            <RefreshCw className="h-3 w-3" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
 const CommitForm: React.FC<{
   commitMessage: string;
   setCommitMessage: (message: string) => void;
   onCommit: () => Promise<void>;
   isDisabled: boolean;
   isLoading: boolean;
-}> = ({ commitMessage, setCommitMessage, onCommit, isDisabled, isLoading }) => {
+  isMerging?: boolean;
+  // 直前のコミットを修正するモードかどうか
+  isAmending: boolean;
+  setIsAmending: (isAmending: boolean) => void;
+  lastCommit: LastCommitInfo | null;
+  onUndoCommit: () => Promise<void>;
+  // ステージ済みの変更からメッセージを生成する
+  onGenerateMessage: () => Promise<void>;
+}> = ({
+  commitMessage,
+  setCommitMessage,
+  onCommit,
+  isDisabled,
+  isLoading,
+  isMerging,
+  isAmending,
+  setIsAmending,
+  lastCommit,
+  onUndoCommit,
+  onGenerateMessage,
+}) => {
+  // プッシュ済みのコミットやマージ中は履歴を書き換えられない
+  const canRewrite = !!lastCommit?.commit && !lastCommit.isPushed && !isMerging;
+
   return (
     <div className="mb-4">
+      {!isMerging && (
+        <div className="mb-1 flex justify-end">
+          <button
+            onClick={onGenerateMessage}
+            disabled={isDisabled || isLoading}
+            className="btn btn-ghost btn-xs"
+            title="ステージした変更からコミットメッセージを生成する"
+          >
+            <WandSparkles className="h-3 w-3" />
+            メッセージを生成
+          </button>
+        </div>
+      )}
       <textarea
         value={commitMessage}
         onChange={(e) => setCommitMessage(e.target.value)}
         placeholder="コミットメッセージを入力"
-        disabled={isDisabled || isLoading}
+        disabled={(isDisabled && !isAmending) || isLoading}
         className="textarea textarea-bordered mb-2 w-full text-sm"
         rows={3}
       />
+      {lastCommit?.commit && !isMerging && (
+        <div className="mb-2 flex items-center justify-between">
+          <label
+            className="label cursor-pointer gap-2 text-sm"
+            title={lastCommit.isPushed ? 'プッシュ済みのコミットは修正できません' : undefined}
+          >
+            <input
+              type="checkbox"
+              checked={isAmending}
+              onChange={(e) => setIsAmending(e.target.checked)}
+              disabled={!canRewrite || isLoading}
+              className="checkbox checkbox-sm"
+            />
+            直前のコミットを修正
+          </label>
+          <button
+            onClick={onUndoCommit}
+            disabled={!canRewrite || isLoading}
+            className="btn btn-ghost btn-xs"
+            title={
+              lastCommit.isPushed
+                ? 'プッシュ済みのコミットは取り消せません'
+                : '直前のコミットを取り消し、変更をステージ済みに戻す'
+            }
+          >
+            <RotateCcw className="h-3 w-3" />
+            直前のコミットを取り消す
+          </button>
+        </div>
+      )}
       <button
         onClick={onCommit}
         disabled={!commitMessage || isLoading}
@@ -188,71 +422,127 @@ const CommitForm: React.FC<{
         ) : (
           <GitCommit className="h-4 w-4" />
         )}
-        {isLoading ? '処理中...' : 'コミット'}
+        {isLoading
+          ? '処理中...'
+          : isMerging
+            ? 'マージを完了'
+            : isAmending
+              ? 'コミットを修正'
+              : 'コミット'}
       </button>
     </div>
   );
 };
 
-export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
+// ステータスマトリクスをgitStatusに格納できる形に変換する関数
+const toGitStatus = (statusMatrix: StatusMatrix, conflictedFiles: string[]): GitStatus => {
+  const gitStatus: GitStatus = {
+    staged: [],
+    unstaged: [],
+    conflicted: conflictedFiles.map((filename) => ({ filename, isDeleted: false })),
+  };
+  statusMatrix.forEach((status) => {
+    const [filename, head, workTree, stage] = status;
+
+    // コンフリクトしているファイルは別に表示する
+    if (conflictedFiles.includes(filename)) return;
+
+    if (stage === StageStatus.ABSENT) {
+      // [0,2,0]: "Untracked" - 新規ファイル（未追跡）
+      if (workTree === WorkdirStatus.MODIFIED && head === HeadStatus.ABSENT) {
+        gitStatus.unstaged.push({ filename, isDeleted: false });
+      }
+      // [1,0,0]: "Deleted (Staged)" - 削除（ステージング済み）
+      if (workTree === WorkdirStatus.ABSENT && head === HeadStatus.PRESENT) {
+        gitStatus.staged.push({ filename, isDeleted: true });
+      }
+    } else if (stage === StageStatus.IDENTICAL) {
+      // [1,0,1]: "Deleted" - 削除（未ステージング）
+      if (workTree === WorkdirStatus.ABSENT) {
+        gitStatus.unstaged.push({ filename, isDeleted: true });
+      }
+      // [1,2,1]: "Modified" - 変更あり（未ステージング）
+      if (workTree === WorkdirStatus.MODIFIED) {
+        gitStatus.unstaged.push({ filename, isDeleted: false });
+      }
+    } else if (stage === StageStatus.MODIFIED) {
+      // [1,2,2]: "Staged" - git add 済み
+      // [0,2,2]: "Added" - git add 済み
+      if (workTree === WorkdirStatus.MODIFIED) {
+        gitStatus.staged.push({ filename, isDeleted: false });
+      }
+    } else if (stage === StageStatus.MODIFIED_AGAIN) {
+      // [1,2,3]: "Staged & Modified" - git add 済み & さらに変更あり（一部の行のみステージした場合を含む）
+      // [1,1,3]: ステージ後に作業ディレクトリをHEADと同じ内容に戻した
+      // [1,0,3]: ステージ後に作業ディレクトリから削除した
+      gitStatus.staged.push({ filename, isDeleted: false });
+      gitStatus.unstaged.push({ filename, isDeleted: workTree === WorkdirStatus.ABSENT });
+    }
+  });
+  return gitStatus;
+};
+
+export const GitControls: React.FC<GitControlsProps> = ({
+  selectedFile,
+  onFilesChanged,
+  onShowDiff,
+  onResolveConflict,
+  refreshKey,
+  autoFillCommitMessage,
+}) => {
   const [commitMessage, setCommitMessage] = useState<string>('');
+  // 最後に生成したコミットメッセージ（手で編集されていなければ再生成で置き換える）
+  const generatedMessageRef = useRef<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [gitStatus, setGitStatus] = useState<GitStatus | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [branchList, setBranchList] = useState<BranchList | null>(null);
+  const [mergeState, setMergeState] = useState<MergeState | null>(null);
+  const [remotes, setRemotes] = useState<string[]>([]);
+  const [pushRemote, setPushRemote] = useState<string>('origin');
+  const [tracking, setTracking] = useState<TrackingStatus | null>(null);
+  const [isFetching, setIsFetching] = useState<boolean>(false);
+  const [lastFetchedAt, setLastFetchedAt] = useState<Date | null>(null);
+  // プッシュが拒否されたため先にプルが必要な状態
+  const [needsPull, setNeedsPull] = useState<boolean>(false);
+  const [lastCommit, setLastCommit] = useState<LastCommitInfo | null>(null);
+  const [isAmending, setIsAmending] = useState<boolean>(false);
+  const [stashRefreshKey, setStashRefreshKey] = useState<number>(0);
+  // コミット前に検出した秘密情報（確認中でなければnull）
+  const [secretFindings, setSecretFindings] = useState<SecretFinding[] | null>(null);
 
   const commitMessageDisabled = useMemo(() => {
     if (!gitStatus) return true;
+    // マージ中はコンフリクトをすべて解決するまでコミットできない
+    if (mergeState?.inProgress) return gitStatus.conflicted.length > 0;
     return gitStatus.staged.length === 0;
-  }, [gitStatus]);
+  }, [gitStatus, mergeState]);
+
+  // マージの状態を反映し、リモートとの差分と最後のコミットを取得し直す
+  const applyRepositoryState = async (currentMergeState: MergeState) => {
+    setMergeState(currentMergeState);
+    setTracking(await window.api.git.trackingStatus());
+    const currentLastCommit = await window.api.git.lastCommit();
+    setLastCommit(currentLastCommit);
+    // プッシュなどで修正できなくなった場合は修正モードを解除する
+    if (currentLastCommit.isPushed || currentLastCommit.commit === null) {
+      setIsAmending(false);
+    }
+    // マージ中はマージコミットのメッセージを初期値にする
+    if (currentMergeState.inProgress) {
+      setCommitMessage((prev) => prev || currentMergeState.message);
+    }
+  };
 
   // Gitステータスを取得
   const fetchGitStatus = async () => {
     try {
-      const statusMatrix: StatusMatrix = await window.api.git.status();
-
-      // gitStatusに格納できる形に変換する
-      const gitStatus: GitStatus = {
-        staged: [],
-        unstaged: [],
-      };
-      statusMatrix.forEach((status) => {
-        const [filename, head, workTree, stage] = status;
-
-        if (stage === StageStatus.ABSENT) {
-          // [0,2,0]: "Untracked" - 新規ファイル（未追跡）
-          if (workTree === WorkdirStatus.MODIFIED && head === HeadStatus.ABSENT) {
-            gitStatus.unstaged.push({ filename, isDeleted: false });
-          }
-          // [1,0,0]: "Deleted (Staged)" - 削除（ステージング済み）
-          if (workTree === WorkdirStatus.ABSENT && head === HeadStatus.PRESENT) {
-            gitStatus.staged.push({ filename, isDeleted: true });
-          }
-        } else if (stage === StageStatus.IDENTICAL) {
-          // [1,0,1]: "Deleted" - 削除（未ステージング）
-          if (workTree === WorkdirStatus.ABSENT) {
-            gitStatus.unstaged.push({ filename, isDeleted: true });
-          }
-          // [1,2,1]: "Modified" - 変更あり（未ステージング）
-          if (workTree === WorkdirStatus.MODIFIED) {
-            gitStatus.unstaged.push({ filename, isDeleted: false });
-          }
-        } else if (stage === StageStatus.MODIFIED) {
-          // [1,2,2]: "Staged" - git add 済み
-          // [0,2,2]: "Added" - git add 済み
-          if (workTree === WorkdirStatus.MODIFIED) {
-            gitStatus.staged.push({ filename, isDeleted: false });
-          }
-        } else if (stage === StageStatus.MODIFIED_AGAIN) {
-          // [1,2,3]: "Staged & Modified" - git add 済み & さらに変更あり
-          if (workTree === WorkdirStatus.MODIFIED) {
-            gitStatus.unstaged.push({ filename, isDeleted: false });
-            gitStatus.staged.push({ filename, isDeleted: false });
-          }
-        }
-      });
-
+      const statusMatrix = await window.api.git.status();
+      const currentMergeState = await window.api.git.mergeState();
+      const gitStatus = toGitStatus(statusMatrix, currentMergeState.conflictedFiles);
       setGitStatus(gitStatus);
+      await applyRepositoryState(currentMergeState);
       return gitStatus;
     } catch (error) {
       console.error('Error fetching git status:', error);
@@ -261,27 +551,324 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
     }
   };
 
-  // ファイルが選択されたときにGitステータスを更新()
-  // パフォーマンスに影響がある場合キャッシュの使用や、ファイルを保存したときなどタイミングを考える
+  // メインプロセスから通知された状態を反映する
+  // HEADやインデックスが変わっていない場合は、マージの状態などは前回の取得結果を使う
+  const handleStatusChanged = async ({ statusMatrix, repositoryChanged }: StatusChange) => {
+    try {
+      const currentMergeState =
+        repositoryChanged || !mergeState ? await window.api.git.mergeState() : mergeState;
+      setGitStatus(toGitStatus(statusMatrix, currentMergeState.conflictedFiles));
+      if (repositoryChanged) {
+        await applyRepositoryState(currentMergeState);
+      }
+    } catch (error) {
+      console.error('Error applying git status:', error);
+      setStatusMessage('Gitステータスの取得に失敗しました');
+    }
+  };
+  // 購読は一度だけ登録するため、最新の状態を参照するハンドラーをrefで保持する
+  const handleStatusChangedRef = useRef(handleStatusChanged);
+  handleStatusChangedRef.current = handleStatusChanged;
+
+  // Gitの操作の後などに再取得する（メインプロセスでキャッシュしているため変更されたファイルだけが取得し直される）
   useEffect(() => {
     fetchGitStatus();
-  }, [selectedFile]);
+  }, [refreshKey]);
 
-  // 変更をコミットする処理
-  const handleCommit = async () => {
-    if (!commitMessage) return;
+  // ファイルの保存や外部での変更によって状態が変わったときにメインプロセスから通知される
+  useEffect(() => {
+    return window.api.git.onStatusChanged((change) => {
+      handleStatusChangedRef.current(change);
+    });
+  }, []);
+
+  // ブランチ一覧を取得
+  const fetchBranches = async () => {
+    try {
+      const branches = await window.api.git.listBranches();
+      setBranchList(branches);
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+      setStatusMessage('ブランチ一覧の取得に失敗しました');
+    }
+  };
+
+  useEffect(() => {
+    fetchBranches();
+  }, []);
+
+  // リモートから取得して上流ブランチとの差分を更新
+  const fetchRemote = async () => {
+    setIsFetching(true);
+    try {
+      setTracking(await window.api.git.fetch());
+      setLastFetchedAt(new Date());
+    } catch (error) {
+      // オフラインの場合などは次の確認まで前回の状態を表示する
+      console.error('Error fetching remote:', error);
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  // 定期的にバックグラウンドでリモートを確認する
+  useEffect(() => {
+    fetchRemote();
+    const interval = setInterval(fetchRemote, FETCH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // プッシュ先に選択できるリモートの一覧を取得
+  useEffect(() => {
+    const fetchRemotes = async () => {
+      try {
+        const entries = await window.api.git.listRemotes();
+        setRemotes(entries.map((entry) => entry.remote));
+      } catch (error) {
+        console.error('Error fetching remotes:', error);
+      }
+    };
+
+    fetchRemotes();
+  }, [refreshKey]);
+
+  // 未コミットの変更を退避する処理（プルやブランチの切り替えの前に使う）
+  const stashChanges = async (message: string) => {
+    const stashedFiles = await window.api.git.stashSave(message);
+    onFilesChanged?.(stashedFiles);
+    setStashRefreshKey((prev) => prev + 1);
+  };
+
+  // 退避・復元によってファイルが変わったときの処理
+  const handleStashFilesChanged = async (filepaths: string[]) => {
+    onFilesChanged?.(filepaths);
+    await fetchGitStatus();
+  };
+
+  // ブランチを切り替える処理
+  const handleCheckoutBranch = async (name: string) => {
+    setIsLoading(true);
+    try {
+      let result = await window.api.git.checkoutBranch(name, false);
+      if (result.status === CheckoutStatus.UNCOMMITTED_CHANGES) {
+        // 変更を退避して切り替えるか、破棄して切り替えるかを確認する
+        if (
+          window.confirm(
+            `未コミットの変更が${result.changedFiles.length}件あります。\n変更を退避してから ${name} に切り替えますか？`
+          )
+        ) {
+          await stashChanges(`${branchList?.current ?? 'ブランチ'} の作業中の変更`);
+          result = await window.api.git.checkoutBranch(name, false);
+        } else if (window.confirm(`変更を破棄して ${name} に切り替えますか？`)) {
+          result = await window.api.git.checkoutBranch(name, true);
+        } else {
+          setStatusMessage('ブランチの切り替えを中止しました');
+          return;
+        }
+      }
+
+      setStatusMessage(`${name} に切り替えました`);
+      if (result.changedFiles.length > 0) {
+        onFilesChanged?.(result.changedFiles);
+      }
+      await fetchBranches();
+      await fetchGitStatus();
+    } catch (error) {
+      console.error('Error checking out branch:', error);
+      setStatusMessage(`${name} への切り替えに失敗しました`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ブランチを作成して切り替える処理
+  const handleCreateBranch = async (name: string) => {
+    setIsLoading(true);
+    try {
+      await window.api.git.createBranch(name, true);
+      setStatusMessage(`ブランチ ${name} を作成しました`);
+      await fetchBranches();
+    } catch (error) {
+      console.error('Error creating branch:', error);
+      setStatusMessage(`ブランチ ${name} の作成に失敗しました`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ブランチ名を変更する処理
+  const handleRenameBranch = async (oldName: string, newName: string) => {
+    setIsLoading(true);
+    try {
+      await window.api.git.renameBranch(oldName, newName);
+      setStatusMessage(`${oldName} を ${newName} に変更しました`);
+      await fetchBranches();
+    } catch (error) {
+      console.error('Error renaming branch:', error);
+      setStatusMessage(`${oldName} の名前の変更に失敗しました`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ブランチを削除する処理
+  const handleDeleteBranch = async (name: string) => {
+    if (!window.confirm(`ブランチ ${name} を削除しますか？`)) return;
 
     setIsLoading(true);
     try {
+      await window.api.git.deleteBranch(name);
+      setStatusMessage(`ブランチ ${name} を削除しました`);
+      await fetchBranches();
+    } catch (error) {
+      console.error('Error deleting branch:', error);
+      setStatusMessage(`ブランチ ${name} の削除に失敗しました`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 変更をコミットする処理（allowedFindingsは確認して許可した秘密情報の識別子）
+  const commitChanges = async (allowedFindings: string[]) => {
+    setIsLoading(true);
+    try {
+      if (isAmending) {
+        // ステージ済みの変更とメッセージで直前のコミットを作り直す
+        const sha = await window.api.git.amendCommit(commitMessage, allowedFindings);
+        setStatusMessage(`直前のコミットを修正しました: ${sha.slice(0, 7)}`);
+        setIsAmending(false);
+        setCommitMessage('');
+        await fetchGitStatus();
+        return;
+      }
+
       // コミット
-      // @ts-ignore - APIはプリロードスクリプトで定義されている
-      const sha = await window.api.git.commit(commitMessage);
-      setStatusMessage(`変更をコミットしました: ${sha.slice(0, 7)}`);
+      const sha = await window.api.git.commit(commitMessage, allowedFindings);
+      setStatusMessage(
+        mergeState?.inProgress
+          ? `マージを完了しました: ${sha.slice(0, 7)}`
+          : `変更をコミットしました: ${sha.slice(0, 7)}`
+      );
       setCommitMessage('');
       await fetchGitStatus();
     } catch (error) {
       console.error('Error committing changes:', error);
-      setStatusMessage('コミットに失敗しました');
+      setStatusMessage(isAmending ? 'コミットの修正に失敗しました' : 'コミットに失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 秘密情報が含まれていないことを確認してからコミットする処理
+  const handleCommit = async () => {
+    if (!commitMessage) return;
+
+    setIsLoading(true);
+    try {
+      const findings = await window.api.git.scanSecrets();
+      if (findings.length > 0) {
+        setSecretFindings(findings);
+        return;
+      }
+    } catch (error) {
+      console.error('Error scanning secrets:', error);
+      setStatusMessage('秘密情報の確認に失敗しました');
+      return;
+    } finally {
+      setIsLoading(false);
+    }
+    await commitChanges([]);
+  };
+
+  // 検出した内容を確認して許可した場合にコミットする処理
+  const handleConfirmSecrets = async (allowedFindings: string[]) => {
+    setSecretFindings(null);
+    await commitChanges(allowedFindings);
+  };
+
+  // 誤検出を許可リストに追加し、残りの検出結果を表示し直す処理
+  const handleAllowlistSecret = async (finding: SecretFinding) => {
+    setIsLoading(true);
+    try {
+      await window.api.git.allowSecret(finding.fingerprint);
+      const findings = await window.api.git.scanSecrets();
+      await fetchGitStatus();
+      if (findings.length > 0) {
+        setSecretFindings(findings);
+        return;
+      }
+      setSecretFindings(null);
+    } catch (error) {
+      console.error('Error updating secret allowlist:', error);
+      setStatusMessage('許可リストの更新に失敗しました');
+      setSecretFindings(null);
+      return;
+    } finally {
+      setIsLoading(false);
+    }
+    // すべて誤検出だった場合はそのままコミットする
+    await commitChanges([]);
+  };
+
+  // ステージ済みの変更からコミットメッセージを生成する処理
+  const handleGenerateMessage = async () => {
+    try {
+      const message = await window.api.git.generateCommitMessage();
+      generatedMessageRef.current = message;
+      setCommitMessage(message);
+    } catch (error) {
+      console.error('Error generating commit message:', error);
+      setStatusMessage('コミットメッセージの生成に失敗しました');
+    }
+  };
+
+  // 自動入力が有効な場合は、ステージした変更に合わせてメッセージを入力し直す
+  // 手で入力・編集したメッセージは上書きしない
+  useEffect(() => {
+    if (!autoFillCommitMessage || !gitStatus || isAmending || mergeState?.inProgress) return;
+    if (commitMessage && commitMessage !== generatedMessageRef.current) return;
+
+    if (gitStatus.staged.length === 0) {
+      generatedMessageRef.current = '';
+      setCommitMessage('');
+      return;
+    }
+    handleGenerateMessage();
+  }, [gitStatus, autoFillCommitMessage]);
+
+  // 修正モードを切り替える（修正する場合は直前のコミットメッセージを初期値にする）
+  const handleToggleAmend = (amend: boolean) => {
+    setIsAmending(amend);
+    if (amend && lastCommit?.commit) {
+      setCommitMessage(lastCommit.commit.message.trim());
+    } else if (!amend) {
+      setCommitMessage('');
+    }
+  };
+
+  // 直前のコミットを取り消し、変更をステージ済みの状態に戻す処理
+  const handleUndoCommit = async () => {
+    if (!lastCommit?.commit) return;
+    const subject = lastCommit.commit.message.split('\n')[0];
+    if (
+      !window.confirm(
+        `直前のコミット「${subject}」を取り消しますか？\n変更はステージ済みの状態に戻ります。`
+      )
+    ) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await window.api.git.undoCommit();
+      setIsAmending(false);
+      // 取り消したコミットのメッセージを再利用できるように残す
+      setCommitMessage(lastCommit.commit.message.trim());
+      setStatusMessage('直前のコミットを取り消しました');
+      await fetchGitStatus();
+    } catch (error) {
+      console.error('Error undoing commit:', error);
+      setStatusMessage('コミットの取り消しに失敗しました');
     } finally {
       setIsLoading(false);
     }
@@ -291,9 +878,19 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
   const handlePush = async () => {
     setIsLoading(true);
     try {
-      // @ts-ignore - APIはプリロードスクリプトで定義されている
-      await window.api.git.push();
-      setStatusMessage('変更をGitHubにプッシュしました');
+      const result = await window.api.git.push(pushRemote);
+      if (result.status === PushStatus.REJECTED) {
+        setNeedsPull(result.remote === 'origin');
+        setStatusMessage(
+          `${result.remote} に新しいコミットがあるためプッシュできませんでした。先にプルしてください`
+        );
+        return;
+      }
+      setNeedsPull(false);
+      await fetchGitStatus();
+      setStatusMessage(
+        `${branchList?.current ?? '現在のブランチ'} を${pushRemote === 'origin' ? 'GitHub' : ` ${pushRemote} `}にプッシュしました`
+      );
     } catch (error) {
       console.error('Error pushing changes:', error);
       setStatusMessage('プッシュに失敗しました');
@@ -306,9 +903,51 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
   const handlePull = async () => {
     setIsLoading(true);
     try {
-      // @ts-ignore - APIはプリロードスクリプトで定義されている
-      await window.api.git.pull();
-      setStatusMessage('GitHubから最新の変更を取得しました');
+      let result = await window.api.git.pull();
+      // 未コミットの変更が上書きされる場合は、退避してからプルするか確認する
+      let isStashed = false;
+      if (result.status === PullStatus.UNCOMMITTED_CHANGES) {
+        const confirmed = window.confirm(
+          `プルすると次のファイルの未コミットの変更が上書きされます: ${result.conflictedFiles.map(getFileName).join(', ')}\n変更を退避してからプルしますか？`
+        );
+        if (!confirmed) {
+          setStatusMessage('プルを中止しました');
+          return;
+        }
+        await stashChanges('プル前の変更');
+        isStashed = true;
+        result = await window.api.git.pull();
+      }
+      setNeedsPull(false);
+      setLastFetchedAt(new Date());
+      switch (result.status) {
+        case PullStatus.UP_TO_DATE:
+          setStatusMessage('すでに最新の状態です');
+          break;
+        case PullStatus.FAST_FORWARDED:
+        case PullStatus.MERGED:
+          setStatusMessage(
+            `GitHubから最新の変更を取得しました（${result.changedFiles.length}件のファイルを更新）`
+          );
+          break;
+        case PullStatus.CONFLICTED:
+          setStatusMessage(
+            `コンフリクトが発生しました: ${result.conflictedFiles.map(getFileName).join(', ')}`
+          );
+          break;
+        case PullStatus.UNCOMMITTED_CHANGES:
+          setStatusMessage('未コミットの変更が上書きされるため、プルを中止しました');
+          break;
+        case PullStatus.NO_REMOTE_BRANCH:
+          setStatusMessage('GitHubにまだブランチがありません。プッシュすると作成されます');
+          break;
+      }
+      if (isStashed) {
+        setStatusMessage((prev) => `${prev}（プル前の変更は退避しました）`);
+      }
+      if (result.changedFiles.length > 0) {
+        onFilesChanged?.(result.changedFiles);
+      }
       await fetchGitStatus();
     } catch (error) {
       console.error('Error pulling changes:', error);
@@ -318,6 +957,28 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
     }
   };
 
+  // マージを中止する処理
+  const handleAbortMerge = async () => {
+    if (!window.confirm('マージを中止して、プル前の状態に戻しますか？')) return;
+
+    setIsLoading(true);
+    try {
+      const conflictedFiles = gitStatus?.conflicted.map((file) => file.filename) ?? [];
+      await window.api.git.abortMerge();
+      setStatusMessage('マージを中止しました');
+      setCommitMessage('');
+      if (conflictedFiles.length > 0) {
+        onFilesChanged?.(conflictedFiles);
+      }
+      await fetchGitStatus();
+    } catch (error) {
+      console.error('Error aborting merge:', error);
+      setStatusMessage('マージの中止に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // すべての変更をステージングする処理
   const handleStageAll = async () => {
     if (!gitStatus || gitStatus.unstaged.length === 0) return;
@@ -391,6 +1052,53 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
     }
   };
 
+  // 変更を破棄してHEADの内容に戻す処理
+  const discardChanges = async (filenames: string[]) => {
+    try {
+      setIsLoading(true);
+
+      const restoredFiles = await window.api.git.restoreFiles(filenames);
+
+      setStatusMessage(
+        filenames.length === 1
+          ? `${getFileName(filenames[0])} の変更を破棄しました`
+          : 'すべての変更を破棄しました'
+      );
+      onFilesChanged?.(restoredFiles);
+      await fetchGitStatus(); // ステータスを更新
+    } catch (error) {
+      console.error('Error discarding changes:', error);
+      setStatusMessage('変更の破棄に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ファイルの変更を破棄する処理
+  const handleDiscardFile = async (filename: string) => {
+    if (
+      !window.confirm(
+        `${getFileName(filename)} の変更を破棄しますか？\nステージ済みの変更も含めて最後のコミットの状態に戻り、元に戻すことはできません。`
+      )
+    ) {
+      return;
+    }
+    await discardChanges([filename]);
+  };
+
+  // すべての変更を破棄する処理
+  const handleDiscardAll = async () => {
+    if (!gitStatus || gitStatus.unstaged.length === 0) return;
+    if (
+      !window.confirm(
+        `${gitStatus.unstaged.length}件のファイルの変更を破棄しますか？\n新規ファイルは削除され、元に戻すことはできません。`
+      )
+    ) {
+      return;
+    }
+    await discardChanges(gitStatus.unstaged.map((file) => file.filename));
+  };
+
   // すべてのステージングを取り消す処理
   const handleUnstageAll = async () => {
     if (!gitStatus || gitStatus.staged.length === 0) return;
@@ -443,6 +1151,15 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
               <div className="text-base-content/70 text-sm">ファイルを選択してください</div>
             )}
 
+            <BranchSelector
+              branchList={branchList}
+              isLoading={isLoading}
+              onCheckout={handleCheckoutBranch}
+              onCreate={handleCreateBranch}
+              onRename={handleRenameBranch}
+              onDelete={handleDeleteBranch}
+            />
+
             <div className="flex flex-col gap-2">
               <div className="flex items-center justify-between">
                 <h4 className="font-medium">Gitステータス</h4>
@@ -477,6 +1194,21 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
                           </button>
                         </div>
                       )}
+                      {gitStatus.unstaged.length > 0 && (
+                        <div className="tooltip tooltip-left" data-tip="すべての変更を破棄">
+                          <button
+                            onClick={handleDiscardAll}
+                            disabled={isLoading}
+                            className="btn btn-error btn-sm btn-square"
+                          >
+                            {isLoading ? (
+                              <span className="loading loading-spinner loading-xs"></span>
+                            ) : (
+                              <Undo2 className="h-3 w-3" />
+                            )}
+                          </button>
+                        </div>
+                      )}
                       {gitStatus.staged.length > 0 && (
                         <div
                           className="tooltip tooltip-left"
@@ -506,17 +1238,77 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
               isLoading={isLoading}
               onStageFile={handleStageFile}
               onUnstageFile={handleUnstageFile}
+              onDiscardFile={handleDiscardFile}
+              onShowDiff={onShowDiff}
+              onResolveConflict={onResolveConflict}
             />
 
+            {mergeState?.inProgress && (
+              <div className="alert alert-warning flex items-center justify-between text-sm">
+                <span>
+                  {gitStatus && gitStatus.conflicted.length > 0
+                    ? `マージ中: ${gitStatus.conflicted.length}件のコンフリクトを解決してください`
+                    : 'マージ中: コミットしてマージを完了してください'}
+                </span>
+                <button
+                  onClick={handleAbortMerge}
+                  disabled={isLoading}
+                  className="btn btn-ghost btn-xs"
+                >
+                  中止
+                </button>
+              </div>
+            )}
+
             <CommitForm
               commitMessage={commitMessage}
               setCommitMessage={setCommitMessage}
               onCommit={handleCommit}
               isDisabled={commitMessageDisabled}
               isLoading={isLoading}
+              isMerging={mergeState?.inProgress}
+              isAmending={isAmending}
+              setIsAmending={handleToggleAmend}
+              lastCommit={lastCommit}
+              onUndoCommit={handleUndoCommit}
+              onGenerateMessage={handleGenerateMessage}
+            />
+
+            <StashPanel
+              hasChanges={
+                !!gitStatus && (gitStatus.staged.length > 0 || gitStatus.unstaged.length > 0)
+              }
+              isDisabled={isLoading || !!mergeState?.inProgress}
+              refreshKey={stashRefreshKey}
+              onFilesChanged={handleStashFilesChanged}
+            />
+
+            <GitActionButtons
+              onPush={handlePush}
+              onPull={handlePull}
+              isLoading={isLoading}
+              remotes={remotes}
+              pushRemote={pushRemote}
+              setPushRemote={setPushRemote}
+              tracking={tracking}
+            />
+
+            {needsPull && (
+              <div className="alert alert-warning mb-2 text-sm">
+                <p>リモートに新しいコミットがあります。先にプルしてからプッシュしてください</p>
+              </div>
+            )}
+
+            <FetchIndicator
+              isFetching={isFetching}
+              lastFetchedAt={lastFetchedAt}
+              onFetch={fetchRemote}
             />
 
-            <GitActionButtons onPush={handlePush} onPull={handlePull} isLoading={isLoading} />
+            <PullRequestPanel
+              branch={branchList?.current ?? null}
+              refreshKey={lastFetchedAt?.getTime()}
+            />
 
             {statusMessage && (
               <div className="alert alert-info">
@@ -526,6 +1318,16 @@ export const GitControls: React.FC<GitControlsProps> = ({ selectedFile }) => {
           </div>
         )}
       </div>
+
+      {secretFindings && (
+        <SecretFindingsDialog
+          findings={secretFindings}
+          isLoading={isLoading}
+          onConfirm={handleConfirmSecrets}
+          onAllowlist={handleAllowlistSecret}
+          onCancel={() => setSecretFindings(null)}
+        />
+      )}
     </div>
   );
 };
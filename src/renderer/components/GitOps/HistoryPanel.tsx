@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, History, RefreshCw, RotateCcw, Undo } from 'lucide-react';
+import { CommitChange, CommitChangeType, CommitSummary } from '../../../types/gitLog';
+
+interface HistoryPanelProps {
+  selectedFile: string | null;
+  // 表示中のリビジョン（最新を表示中の場合はnull）
+  selectedRevision: string | null;
+  onRevisionSelect: (commit: CommitSummary) => void;
+  // ファイルを指定したコミットの内容に復元する（filepathは絶対パスまたはリポジトリからの相対パス）
+  onRestore: (filepath: string, commit: CommitSummary, ref: string) => void;
+  // コミットを打ち消すコミットを作成したときに、変更されたファイル（リポジトリからの相対パス）を受け取る
+  onReverted: (filepaths: string[]) => void;
+}
+
+type HistoryScope = 'file' | 'repository';
+
+const PAGE_SIZE = 30;
+
+const CHANGE_LABELS: Record<CommitChange['type'], string> = {
+  [CommitChangeType.ADDED]: '追加',
+  [CommitChangeType.MODIFIED]: '変更',
+  [CommitChangeType.DELETED]: '削除',
+};
+
+// コミットで変更されたファイルの一覧
+const CommitChangeList: React.FC<{
+  commit: CommitSummary;
+  onRestore: (filepath: string, commit: CommitSummary, ref: string) => void;
+}> = ({ commit, onRestore }) => {
+  const [changes, setChanges] = useState<CommitChange[] | null>(null);
+
+  useEffect(() => {
+    const loadChanges = async () => {
+      try {
+        setChanges(await window.api.git.commitChanges(commit.oid));
+      } catch (error) {
+        console.error('Error loading commit changes:', error);
+        setChanges([]);
+      }
+    };
+
+    loadChanges();
+  }, [commit.oid]);
+
+  if (!changes) {
+    return <span className="loading loading-spinner loading-xs ml-4"></span>;
+  }
+
+  return (
+    <ul className="mt-1 ml-4 space-y-1">
+      {changes.map((change) => (
+        <li
+          key={change.filepath}
+          className="group flex items-center justify-between text-xs"
+          title={change.filepath}
+        >
+          <span className="truncate">
+            <span className="badge badge-ghost badge-xs mr-1">{CHANGE_LABELS[change.type]}</span>
+            {change.filepath.split('/').pop()}
+          </span>
+          {/* 削除されたファイルは削除される前（親コミット）の内容に復元する */}
+          {(change.type !== CommitChangeType.DELETED || commit.parents.length > 0) && (
+            <button
+              onClick={() =>
+                onRestore(
+                  change.filepath,
+                  commit,
+                  change.type === CommitChangeType.DELETED ? commit.parents[0] : commit.oid
+                )
+              }
+              className="btn btn-ghost btn-xs opacity-0 group-hover:opacity-100"
+              title="このバージョンに復元"
+            >
+              <RotateCcw className="h-3 w-3" />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+// コミット日時を表示用の文字列に変換する関数
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// コミット履歴の一覧表示
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  selectedFile,
+  selectedRevision,
+  onRevisionSelect,
+  onRestore,
+  onReverted,
+}) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [scope, setScope] = useState<HistoryScope>('file');
+  const [commits, setCommits] = useState<CommitSummary[]>([]);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+  // 変更されたファイルを表示中のコミット
+  const [expandedCommit, setExpandedCommit] = useState<string | null>(null);
+
+  // 履歴を読み込む（appendがtrueの場合は続きを読み込む）
+  const loadCommits = async (append: boolean) => {
+    if (scope === 'file' && !selectedFile) {
+      setCommits([]);
+      setHasMore(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      const page = await window.api.git.log({
+        filePath: scope === 'file' ? (selectedFile ?? undefined) : undefined,
+        skip: append ? commits.length : 0,
+        limit: PAGE_SIZE,
+      });
+      setCommits((prev) => (append ? [...prev, ...page.commits] : page.commits));
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading history:', error);
+      setErrorMessage('履歴の取得に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // コミットの変更を打ち消すコミットを作成する
+  const handleRevert = async (commit: CommitSummary) => {
+    if (
+      !window.confirm(
+        `${commit.oid.slice(0, 7)}「${commit.message.split('\n')[0]}」の変更を打ち消すコミットを作成しますか？`
+      )
+    ) {
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      const revertedFiles = await window.api.git.revertCommit(commit.oid);
+      onReverted(revertedFiles);
+      await loadCommits(false);
+    } catch (error) {
+      console.error('Error reverting commit:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'コミットの打ち消しに失敗しました');
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    loadCommits(false);
+  }, [isExpanded, scope, selectedFile]);
+
+  return (
+    <div className="card bg-base-100 mt-4 shadow-xl">
+      <div className="card-body">
+        <div
+          className="flex cursor-pointer items-center justify-between"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <h3 className="card-title text-lg">
+            <History className="h-5 w-5" />
+            履歴
+          </h3>
+          <span className="text-base-content/70">
+            {isExpanded ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+          </span>
+        </div>
+
+        {isExpanded && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="join">
+                <button
+                  className={`btn btn-xs join-item ${scope === 'file' ? 'btn-active' : ''}`}
+                  onClick={() => setScope('file')}
+                >
+                  このファイル
+                </button>
+                <button
+                  className={`btn btn-xs join-item ${scope === 'repository' ? 'btn-active' : ''}`}
+                  onClick={() => setScope('repository')}
+                >
+                  すべて
+                </button>
+              </div>
+              <div className="tooltip tooltip-left" data-tip="履歴を更新">
+                <button
+                  onClick={() => loadCommits(false)}
+                  disabled={isLoading}
+                  className="btn btn-ghost btn-sm btn-square"
+                >
+                  {isLoading ? (
+                    <span className="loading loading-spinner loading-xs"></span>
+                  ) : (
+                    <RefreshCw className="h-3 w-3" />
+                  )}
+                </button>
+              </div>
+            </div>
+
+            {scope === 'file' && !selectedFile ? (
+              <p className="text-base-content/70 py-2 text-center text-sm">
+                ファイルを選択してください
+              </p>
+            ) : commits.length === 0 && !isLoading ? (
+              <p className="text-base-content/70 py-2 text-center text-sm">履歴はありません</p>
+            ) : (
+              <ul className="max-h-64 space-y-1 overflow-y-auto text-sm">
+                {commits.map((commit) => (
+                  <li key={commit.oid} className="group relative">
+                    <button
+                      onClick={() => onRevisionSelect(commit)}
+                      disabled={!selectedFile}
+                      className={`hover:bg-base-200 w-full rounded px-2 py-1 text-left transition-colors duration-150 ${
+                        selectedRevision === commit.oid ? 'bg-base-200' : ''
+                      }`}
+                      title={commit.message}
+                    >
+                      <p className="truncate font-medium">{commit.message.split('\n')[0]}</p>
+                      <p className="text-base-content/70 flex justify-between text-xs">
+                        <span className="truncate">
+                          <code>{commit.oid.slice(0, 7)}</code> {commit.author.name}
+                        </span>
+                        <span className="flex-shrink-0">{formatDate(commit.timestamp)}</span>
+                      </p>
+                    </button>
+                    <div className="bg-base-100 absolute top-1 right-1 flex gap-1 rounded opacity-0 group-hover:opacity-100">
+                      {scope === 'file' && selectedFile ? (
+                        <button
+                          onClick={() => onRestore(selectedFile, commit, commit.oid)}
+                          className="btn btn-ghost btn-xs"
+                          title="このバージョンに復元"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() =>
+                            setExpandedCommit(expandedCommit === commit.oid ? null : commit.oid)
+                          }
+                          className="btn btn-ghost btn-xs"
+                          title="変更されたファイル"
+                        >
+                          {expandedCommit === commit.oid ? (
+                            <ChevronDown className="h-3 w-3" />
+                          ) : (
+                            <ChevronRight className="h-3 w-3" />
+                          )}
+                        </button>
+                      )}
+                      {/* マージコミットは打ち消せない */}
+                      {commit.parents.length <= 1 && (
+                        <button
+                          onClick={() => handleRevert(commit)}
+                          disabled={isLoading}
+                          className="btn btn-ghost btn-xs"
+                          title="このコミットを打ち消す"
+                        >
+                          <Undo className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                    {scope === 'repository' && expandedCommit === commit.oid && (
+                      <CommitChangeList commit={commit} onRestore={onRestore} />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {hasMore && (
+              <button
+                onClick={() => loadCommits(true)}
+                disabled={isLoading}
+                className="btn btn-ghost btn-sm w-full"
+              >
+                さらに読み込む
+              </button>
+            )}
+
+            {errorMessage && (
+              <div className="alert alert-error">
+                <p>{errorMessage}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, GitPullRequest } from 'lucide-react';
+import { PullRequestInfo, PullRequestState } from '../../../types/github';
+
+interface PullRequestPanelProps {
+  // 現在のブランチ（detached HEADの場合はnull）
+  branch: string | null;
+  refreshKey?: number;
+}
+
+const STATE_BADGES: Record<PullRequestInfo['state'], { label: string; className: string }> = {
+  [PullRequestState.OPEN]: { label: 'オープン', className: 'badge-success' },
+  [PullRequestState.MERGED]: { label: 'マージ済み', className: 'badge-primary' },
+  [PullRequestState.CLOSED]: { label: 'クローズ', className: 'badge-error' },
+};
+
+// 現在のブランチのプルリクエストの状態表示と作成
+export const PullRequestPanel: React.FC<PullRequestPanelProps> = ({ branch, refreshKey }) => {
+  const [pullRequest, setPullRequest] = useState<PullRequestInfo | null>(null);
+  // GitHubのリポジトリのデフォルトブランチ（GitHubに接続できない場合はnull）
+  const [defaultBranch, setDefaultBranch] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState<boolean>(false);
+  const [title, setTitle] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const fetchPullRequest = async () => {
+    try {
+      const status = await window.api.github.pullRequestStatus();
+      setPullRequest(status.pullRequest);
+      setDefaultBranch(status.defaultBranch);
+      setErrorMessage('');
+    } catch (error) {
+      // GitHub以外のリモートやトークン未設定の場合は表示しない
+      console.error('Error fetching pull request:', error);
+      setPullRequest(null);
+      setDefaultBranch(null);
+    }
+  };
+
+  useEffect(() => {
+    if (!branch) return;
+    fetchPullRequest();
+  }, [branch, refreshKey]);
+
+  const handleCreate = async () => {
+    if (!title.trim()) return;
+
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      setPullRequest(await window.api.github.createPullRequest(title.trim()));
+      setIsCreating(false);
+      setTitle('');
+    } catch (error) {
+      console.error('Error creating pull request:', error);
+      setErrorMessage('プルリクエストの作成に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // デフォルトブランチからはプルリクエストを作成できない
+  if (!branch || !defaultBranch || (branch === defaultBranch && !pullRequest)) return null;
+
+  const badge = pullRequest ? STATE_BADGES[pullRequest.state] : null;
+
+  return (
+    <div className="mb-4 text-sm">
+      {pullRequest && badge ? (
+        <a
+          href={pullRequest.htmlUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="hover:bg-base-200 flex items-center gap-2 rounded px-1 py-1"
+          title={`${pullRequest.base} へのプルリクエストを開く`}
+        >
+          <GitPullRequest className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">
+            #{pullRequest.number} {pullRequest.title}
+          </span>
+          <span className={`badge badge-sm ${badge.className}`}>
+            {pullRequest.draft && pullRequest.state === PullRequestState.OPEN
+              ? '下書き'
+              : badge.label}
+          </span>
+          <ExternalLink className="h-3 w-3 flex-shrink-0" />
+        </a>
+      ) : isCreating ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+              if (e.key === 'Escape') setIsCreating(false);
+            }}
+            placeholder="プルリクエストのタイトル"
+            className="input input-bordered input-sm flex-1"
+            autoFocus
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!title.trim() || isLoading}
+            className="btn btn-primary btn-sm"
+          >
+            {isLoading ? <span className="loading loading-spinner loading-xs"></span> : '作成'}
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => {
+            setTitle(branch);
+            setIsCreating(true);
+          }}
+          className="btn btn-outline btn-sm w-full"
+        >
+          <GitPullRequest className="h-4 w-4" />
+          プルリクエストを作成
+        </button>
+      )}
+
+      {errorMessage && (
+        <div className="alert alert-error mt-2">
+          <p>{errorMessage}</p>
+        </div>
+      )}
+    </div>
+  );
+};
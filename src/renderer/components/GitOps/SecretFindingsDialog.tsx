@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { SECRET_RULE_LABELS, SecretFinding } from '../../../types/gitSecret';
+
+interface SecretFindingsDialogProps {
+  findings: SecretFinding[];
+  isLoading: boolean;
+  // 許可した内容の識別子を受け取ってコミットする
+  onConfirm: (allowedFingerprints: string[]) => void;
+  // 誤検出としてリポジトリの許可リストに追加する
+  onAllowlist: (finding: SecretFinding) => Promise<void>;
+  onCancel: () => void;
+}
+
+// コミット前に検出した秘密情報を確認し、1件ずつ許可してからコミットするダイアログ
+export const SecretFindingsDialog: React.FC<SecretFindingsDialogProps> = ({
+  findings,
+  isLoading,
+  onConfirm,
+  onAllowlist,
+  onCancel,
+}) => {
+  const [allowed, setAllowed] = useState<Set<string>>(new Set());
+
+  const toggleAllowed = (fingerprint: string, isAllowed: boolean) => {
+    setAllowed((prev) => {
+      const next = new Set(prev);
+      if (isAllowed) {
+        next.add(fingerprint);
+      } else {
+        next.delete(fingerprint);
+      }
+      return next;
+    });
+  };
+
+  const isAllAllowed = findings.every((finding) => allowed.has(finding.fingerprint));
+
+  return (
+    <dialog open className="modal modal-open">
+      <div className="modal-box flex max-h-[80vh] max-w-2xl flex-col">
+        <h3 className="flex items-center gap-2 font-bold">
+          <ShieldAlert className="text-warning h-5 w-5" />
+          秘密情報の可能性がある内容が見つかりました
+        </h3>
+        <p className="text-base-content/70 mt-2 text-sm">
+          プッシュしたあとに削除するのは困難です。問題がない場合は1件ずつ許可してください。
+        </p>
+
+        <ul className="mt-4 space-y-2 overflow-y-auto text-sm">
+          {findings.map((finding) => (
+            <li
+              key={`${finding.fingerprint}:${finding.line}`}
+              className="bg-base-200 flex items-center justify-between gap-2 rounded p-2"
+            >
+              <label className="flex min-w-0 cursor-pointer items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={allowed.has(finding.fingerprint)}
+                  onChange={(e) => toggleAllowed(finding.fingerprint, e.target.checked)}
+                  disabled={isLoading}
+                  className="checkbox checkbox-sm"
+                />
+                <span className="min-w-0">
+                  <span className="block truncate font-medium">
+                    {finding.filepath}:{finding.line}
+                  </span>
+                  <span className="text-base-content/70 text-xs">
+                    {SECRET_RULE_LABELS[finding.rule]} ・ <code>{finding.preview}</code>
+                  </span>
+                </span>
+              </label>
+              <button
+                onClick={() => onAllowlist(finding)}
+                disabled={isLoading}
+                className="btn btn-ghost btn-xs flex-shrink-0"
+                title="誤検出として今後も無視する"
+              >
+                許可リストに追加
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="modal-action">
+          <button onClick={onCancel} disabled={isLoading} className="btn btn-ghost btn-sm">
+            キャンセル
+          </button>
+          <button
+            onClick={() => onConfirm([...allowed])}
+            disabled={!isAllAllowed || isLoading}
+            className="btn btn-warning btn-sm"
+          >
+            許可してコミット
+          </button>
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={onCancel}></div>
+    </dialog>
+  );
+};
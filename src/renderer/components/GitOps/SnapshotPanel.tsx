@@ -0,0 +1,356 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  File,
+  Folder,
+  FolderOpen,
+  Tag,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import { SnapshotEntry, TagEntry } from '../../../types/gitTag';
+import { Editor } from '../Editor/Editor';
+
+interface SnapshotPanelProps {
+  // コミットやプルでHEADが変わったときに一覧を更新する
+  refreshKey?: number;
+}
+
+// 表示中のスナップショット内のファイル
+type PreviewFile = {
+  path: string;
+  content: string;
+};
+
+// タグの日時を表示用の文字列に変換する関数
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// タグの時点のノートを閲覧するブラウザ（作業ディレクトリは切り替えない）
+const SnapshotBrowser: React.FC<{
+  tag: TagEntry;
+  onPreview: (file: PreviewFile) => void;
+}> = ({ tag, onPreview }) => {
+  const [dirPath, setDirPath] = useState<string>('');
+  const [entries, setEntries] = useState<SnapshotEntry[] | null>(null);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      setEntries(null);
+      try {
+        setEntries(await window.api.git.listSnapshot(tag.name, dirPath));
+      } catch (error) {
+        console.error('Error loading snapshot:', error);
+        setEntries([]);
+      }
+    };
+
+    loadEntries();
+  }, [tag.name, dirPath]);
+
+  const handleOpenFile = async (entry: SnapshotEntry) => {
+    try {
+      onPreview({
+        path: entry.path,
+        content: await window.api.git.readSnapshotFile(tag.name, entry.path),
+      });
+    } catch (error) {
+      console.error('Error reading snapshot file:', error);
+    }
+  };
+
+  const segments = dirPath ? dirPath.split('/') : [];
+
+  return (
+    <div className="bg-base-200 mt-1 rounded p-2 text-xs">
+      <div className="breadcrumbs py-0 text-xs">
+        <ul>
+          <li>
+            <button onClick={() => setDirPath('')}>{tag.name}</button>
+          </li>
+          {segments.map((segment, index) => (
+            <li key={index}>
+              <button onClick={() => setDirPath(segments.slice(0, index + 1).join('/'))}>
+                {segment}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {!entries ? (
+        <span className="loading loading-spinner loading-xs"></span>
+      ) : entries.length === 0 ? (
+        <p className="text-base-content/70">ファイルはありません</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto">
+          {entries.map((entry) => (
+            <li key={entry.path}>
+              <button
+                onClick={() => (entry.isDirectory ? setDirPath(entry.path) : handleOpenFile(entry))}
+                className="hover:bg-base-300 flex w-full items-center gap-1 rounded px-1 py-0.5 text-left"
+              >
+                {entry.isDirectory ? (
+                  <Folder className="h-3 w-3 flex-shrink-0" />
+                ) : (
+                  <File className="h-3 w-3 flex-shrink-0" />
+                )}
+                <span className="truncate">{entry.name}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// タグ（名前付きのスナップショット）の作成・一覧表示・書き出し
+export const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ refreshKey }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [tags, setTags] = useState<TagEntry[]>([]);
+  const [name, setName] = useState<string>('');
+  const [message, setMessage] = useState<string>('');
+  // 中身を表示中のタグ
+  const [browsingTag, setBrowsingTag] = useState<string | null>(null);
+  const [previewFile, setPreviewFile] = useState<PreviewFile | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [statusMessage, setStatusMessage] = useState<string>('');
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const fetchTags = async () => {
+    try {
+      setTags(await window.api.git.listTags());
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      setTags([]);
+    }
+  };
+
+  useEffect(() => {
+    if (!isExpanded) return;
+    fetchTags();
+  }, [isExpanded, refreshKey]);
+
+  // 操作を実行し、結果のメッセージを表示する
+  const runTagOperation = async (
+    operation: () => Promise<string | void>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setStatusMessage('');
+    setErrorMessage('');
+    try {
+      const result = await operation();
+      if (result) setStatusMessage(result);
+      await fetchTags();
+    } catch (error) {
+      console.error(failureMessage, error);
+      setErrorMessage(failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 現在のコミットにタグを作成する（メッセージを入力した場合は注釈付きタグ）
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+
+    await runTagOperation(async () => {
+      const tag = await window.api.git.createTag(name.trim(), undefined, message);
+      setName('');
+      setMessage('');
+      return `スナップショット ${tag.name} を作成しました`;
+    }, 'スナップショットの作成に失敗しました');
+  };
+
+  const handlePush = async (tag: TagEntry) => {
+    await runTagOperation(async () => {
+      await window.api.git.pushTag(tag.name);
+      return `${tag.name} をGitHubにプッシュしました`;
+    }, `${tag.name} のプッシュに失敗しました`);
+  };
+
+  const handleDelete = async (tag: TagEntry) => {
+    if (!window.confirm(`スナップショット ${tag.name} を削除しますか？`)) return;
+    const deleteRemote = window.confirm(`GitHubにプッシュした ${tag.name} も削除しますか？`);
+
+    await runTagOperation(async () => {
+      await window.api.git.deleteTag(tag.name, deleteRemote);
+      if (browsingTag === tag.name) setBrowsingTag(null);
+      return `${tag.name} を削除しました`;
+    }, `${tag.name} の削除に失敗しました`);
+  };
+
+  // スナップショットの時点のファイルを選択したディレクトリに書き出す
+  const handleExport = async (tag: TagEntry) => {
+    const destination = await window.api.dialog.selectDirectory();
+    if (!destination) return;
+
+    await runTagOperation(async () => {
+      const outputPath = await window.api.git.exportSnapshot(tag.name, destination);
+      return `${tag.name} を ${outputPath} に書き出しました`;
+    }, `${tag.name} の書き出しに失敗しました`);
+  };
+
+  return (
+    <div className="card bg-base-100 mt-4 shadow-xl">
+      <div className="card-body">
+        <div
+          className="flex cursor-pointer items-center justify-between"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <h3 className="card-title text-lg">
+            <Tag className="h-5 w-5" />
+            スナップショット
+          </h3>
+          <span className="text-base-content/70">
+            {isExpanded ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+          </span>
+        </div>
+
+        {isExpanded && (
+          <div className="space-y-2 text-sm">
+            <div className="space-y-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="スナップショット名（例: before-reorganisation）"
+                disabled={isLoading}
+                className="input input-bordered input-sm w-full"
+              />
+              <input
+                type="text"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="説明（省略可）"
+                disabled={isLoading}
+                className="input input-bordered input-sm w-full"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!name.trim() || isLoading}
+                className="btn btn-primary btn-sm w-full"
+              >
+                <Tag className="h-4 w-4" />
+                現在の状態を保存
+              </button>
+            </div>
+
+            {tags.length === 0 ? (
+              <p className="text-base-content/70 py-2 text-center">スナップショットはありません</p>
+            ) : (
+              <ul className="max-h-64 space-y-1 overflow-y-auto">
+                {tags.map((tag) => (
+                  <li key={tag.name} className="group">
+                    <div className="hover:bg-base-200 flex items-center justify-between rounded px-1">
+                      <div className="min-w-0" title={tag.message ?? undefined}>
+                        <p className="truncate font-medium">{tag.name}</p>
+                        <p className="text-base-content/70 truncate text-xs">
+                          {tag.message ? `${tag.message.split('\n')[0]} ・ ` : ''}
+                          {formatDate(tag.timestamp)}
+                        </p>
+                      </div>
+                      <div className="flex flex-shrink-0 gap-1 opacity-0 group-hover:opacity-100">
+                        <button
+                          onClick={() => setBrowsingTag(browsingTag === tag.name ? null : tag.name)}
+                          className="btn btn-ghost btn-xs"
+                          title="中身を見る"
+                        >
+                          <FolderOpen className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() => handleExport(tag)}
+                          disabled={isLoading}
+                          className="btn btn-ghost btn-xs"
+                          title="フォルダに書き出す"
+                        >
+                          <Download className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() => handlePush(tag)}
+                          disabled={isLoading}
+                          className="btn btn-ghost btn-xs"
+                          title="GitHubにプッシュ"
+                        >
+                          <Upload className="h-3 w-3" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(tag)}
+                          disabled={isLoading}
+                          className="btn btn-ghost btn-xs text-error"
+                          title="削除"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </div>
+                    {browsingTag === tag.name && (
+                      <SnapshotBrowser tag={tag} onPreview={setPreviewFile} />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {statusMessage && (
+              <div className="alert alert-info">
+                <p>{statusMessage}</p>
+              </div>
+            )}
+
+            {errorMessage && (
+              <div className="alert alert-error">
+                <p>{errorMessage}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {previewFile && (
+        <dialog open className="modal modal-open">
+          <div className="modal-box flex max-h-[80vh] max-w-3xl flex-col">
+            <div className="mb-2 flex items-center justify-between">
+              <h3 className="truncate font-bold">
+                {browsingTag} : {previewFile.path}
+              </h3>
+              <button
+                className="btn btn-ghost btn-sm btn-square"
+                onClick={() => setPreviewFile(null)}
+                title="閉じる"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="overflow-y-auto">
+              {previewFile.path.endsWith('.md') ? (
+                <Editor initialContent={previewFile.content} readOnly />
+              ) : (
+                <pre className="bg-base-200 rounded p-2 font-mono text-xs whitespace-pre-wrap">
+                  {previewFile.content}
+                </pre>
+              )}
+            </div>
+          </div>
+          <div className="modal-backdrop" onClick={() => setPreviewFile(null)}></div>
+        </dialog>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, Trash2 } from 'lucide-react';
+import { StashEntry } from '../../../types/gitStash';
+
+interface StashPanelProps {
+  // 退避できる未コミットの変更があるかどうか
+  hasChanges: boolean;
+  isDisabled: boolean;
+  refreshKey?: number;
+  // 退避・復元によって作業ディレクトリのファイルが変わったときに呼ばれる（リポジトリからの相対パス）
+  onFilesChanged: (filepaths: string[]) => void;
+}
+
+// 作業中の変更の退避（スタッシュ）と復元
+export const StashPanel: React.FC<StashPanelProps> = ({
+  hasChanges,
+  isDisabled,
+  refreshKey,
+  onFilesChanged,
+}) => {
+  const [stashes, setStashes] = useState<StashEntry[]>([]);
+  const [message, setMessage] = useState<string>('');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string>('');
+
+  const fetchStashes = async () => {
+    try {
+      setStashes(await window.api.git.stashList());
+    } catch (error) {
+      console.error('Error fetching stashes:', error);
+      setStashes([]);
+    }
+  };
+
+  useEffect(() => {
+    fetchStashes();
+  }, [refreshKey]);
+
+  // 操作を実行し、変更されたファイルを通知して一覧を更新する
+  const runStashOperation = async (
+    operation: () => Promise<string[] | void>,
+    failureMessage: string
+  ) => {
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      const changedFiles = await operation();
+      if (changedFiles && changedFiles.length > 0) {
+        onFilesChanged(changedFiles);
+      }
+      await fetchStashes();
+    } catch (error) {
+      console.error(failureMessage, error);
+      setErrorMessage(error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    await runStashOperation(async () => {
+      const stashedFiles = await window.api.git.stashSave(message);
+      setMessage('');
+      return stashedFiles;
+    }, '変更の退避に失敗しました');
+  };
+
+  const handleDrop = async (stash: StashEntry) => {
+    if (
+      !window.confirm(
+        `退避した変更「${stash.message}」を削除しますか？\nこの操作は元に戻せません。`
+      )
+    ) {
+      return;
+    }
+    await runStashOperation(
+      () => window.api.git.stashDrop(stash.index),
+      '退避した変更の削除に失敗しました'
+    );
+  };
+
+  return (
+    <div className="mb-4 text-sm">
+      <div className="mb-2 flex gap-2">
+        <input
+          type="text"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="退避する変更の名前（省略可）"
+          disabled={!hasChanges || isDisabled || isLoading}
+          className="input input-bordered input-sm flex-1"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!hasChanges || isDisabled || isLoading}
+          className="btn btn-outline btn-sm"
+          title="未コミットの変更を一時的に退避する"
+        >
+          <Archive className="h-4 w-4" />
+          退避
+        </button>
+      </div>
+
+      {stashes.length > 0 && (
+        <ul className="space-y-1">
+          {stashes.map((stash) => (
+            <li
+              key={stash.index}
+              className="hover:bg-base-200 flex items-center justify-between rounded px-1"
+            >
+              <span className="truncate" title={stash.message}>
+                <code className="text-base-content/70 mr-1 text-xs">
+                  stash@{`{${stash.index}}`}
+                </code>
+                {stash.message}
+              </span>
+              <div className="flex flex-shrink-0 gap-1">
+                <button
+                  onClick={() =>
+                    runStashOperation(
+                      () => window.api.git.stashPop(stash.index),
+                      '退避した変更の復元に失敗しました'
+                    )
+                  }
+                  disabled={isDisabled || isLoading}
+                  className="btn btn-ghost btn-xs"
+                  title="変更を戻して一覧から削除"
+                >
+                  <ArchiveRestore className="h-3 w-3" />
+                  戻す
+                </button>
+                <button
+                  onClick={() =>
+                    runStashOperation(
+                      () => window.api.git.stashApply(stash.index),
+                      '退避した変更の適用に失敗しました'
+                    )
+                  }
+                  disabled={isDisabled || isLoading}
+                  className="btn btn-ghost btn-xs"
+                  title="変更を戻して一覧にも残す"
+                >
+                  適用
+                </button>
+                <button
+                  onClick={() => handleDrop(stash)}
+                  disabled={isDisabled || isLoading}
+                  className="btn btn-ghost btn-xs text-error"
+                  title="削除"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errorMessage && (
+        <div className="alert alert-error mt-2">
+          <p>{errorMessage}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, PauseCircle, RefreshCw } from 'lucide-react';
+import { AutoSyncState } from '../../hooks/useAutoSync';
+import { SyncStatus } from '../../../types/gitSync';
+
+interface SyncStatusIndicatorProps {
+  state: AutoSyncState;
+  onSync: () => void;
+  onResume: () => void;
+}
+
+// 最終同期日時を表示用の文字列に変換する関数
+const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+};
+
+// ヘッダーに表示する自動同期の状態
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
+  state,
+  onSync,
+  onResume,
+}) => {
+  if (state.isSyncing) {
+    return (
+      <span className="text-base-content/70 flex items-center gap-2 text-sm">
+        <span className="loading loading-spinner loading-xs"></span>
+        同期中...
+      </span>
+    );
+  }
+
+  if (state.isPaused) {
+    return (
+      <span className="text-warning flex items-center gap-2 text-sm">
+        <PauseCircle className="h-4 w-4" />
+        {state.pausedStatus === SyncStatus.SECRETS_DETECTED
+          ? '秘密情報の可能性がある内容が見つかったため自動同期を停止中'
+          : 'コンフリクトのため自動同期を停止中'}
+        <button onClick={onResume} className="btn btn-ghost btn-xs">
+          再開
+        </button>
+      </span>
+    );
+  }
+
+  if (state.error) {
+    return (
+      <span className="text-error flex items-center gap-2 text-sm" title={state.error}>
+        <AlertTriangle className="h-4 w-4" />
+        同期に失敗しました
+        <button onClick={onSync} className="btn btn-ghost btn-xs">
+          再試行
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <span className="text-base-content/70 flex items-center gap-2 text-sm">
+      {state.lastSyncedAt ? (
+        <>
+          <CheckCircle className="text-success h-4 w-4" />
+          最終同期 {formatTime(state.lastSyncedAt)}
+        </>
+      ) : (
+        '自動同期は有効です'
+      )}
+      <div className="tooltip tooltip-bottom" data-tip="今すぐ同期">
+        <button onClick={onSync} className="btn btn-ghost btn-xs btn-square">
+          <RefreshCw className="h-3 w-3" />
+        </button>
+      </div>
+    </span>
+  );
+};
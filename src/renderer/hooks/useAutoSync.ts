@@ -0,0 +1,107 @@
+import { useState, useEffect, useRef } from 'react';
+import { AppSettings } from '../../types/appSettings';
+import { SyncResult, SyncStatus } from '../../types/gitSync';
+
+export type AutoSyncState = {
+  isSyncing: boolean;
+  // 最後に同期が完了した日時
+  lastSyncedAt: Date | null;
+  error: string | null;
+  // コンフリクトや秘密情報の検出のため自動同期を一時停止しているかどうか
+  isPaused: boolean;
+  // 一時停止した原因となった同期の結果
+  pausedStatus: SyncResult['status'] | null;
+};
+
+// 一定間隔と、保存後に操作がない時間が続いたときに自動で同期するカスタムフック
+export function useAutoSync(
+  syncSettings: AppSettings['sync'] | null,
+  // 同期が完了したときに、プルで変更されたファイルを受け取る
+  onSynced: (changedFiles: string[]) => void
+) {
+  const [state, setState] = useState<AutoSyncState>({
+    isSyncing: false,
+    lastSyncedAt: null,
+    error: null,
+    isPaused: false,
+    pausedStatus: null,
+  });
+  const isSyncingRef = useRef<boolean>(false);
+  const isPausedRef = useRef<boolean>(false);
+  const lastActivityRef = useRef<number>(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // タイマーから最新のコールバックを呼び出すために保持する
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const isEnabled = !!syncSettings?.autoSync;
+
+  // 同期を実行する
+  const sync = async () => {
+    if (isSyncingRef.current) return;
+
+    isSyncingRef.current = true;
+    setState((prev) => ({ ...prev, isSyncing: true, error: null }));
+    try {
+      const result = await window.api.git.sync();
+      onSyncedRef.current([...result.changedFiles, ...result.conflictedFiles]);
+
+      if (
+        result.status === SyncStatus.CONFLICTED ||
+        result.status === SyncStatus.SECRETS_DETECTED
+      ) {
+        // コンフリクトが解決されるか、検出された内容を確認するまで自動同期を止める
+        isPausedRef.current = true;
+        setState((prev) => ({ ...prev, isPaused: true, pausedStatus: result.status }));
+      } else {
+        setState((prev) => ({ ...prev, lastSyncedAt: new Date() }));
+      }
+    } catch (error) {
+      console.error('Error syncing:', error);
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    } finally {
+      isSyncingRef.current = false;
+      setState((prev) => ({ ...prev, isSyncing: false }));
+    }
+  };
+
+  // 自動同期を実行する（一時停止中や操作中は実行しない）
+  const autoSync = () => {
+    if (isPausedRef.current) return;
+    const idleMs = (syncSettings?.idleSeconds ?? 0) * 1000;
+    if (Date.now() - lastActivityRef.current < idleMs) return;
+    sync();
+  };
+
+  // ファイルが保存されたときに呼び出し、操作がない時間が続いたら同期する
+  const notifyActivity = () => {
+    lastActivityRef.current = Date.now();
+    if (!isEnabled) return;
+
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(autoSync, (syncSettings?.idleSeconds ?? 0) * 1000);
+  };
+
+  // 一時停止を解除して同期する
+  const resume = () => {
+    isPausedRef.current = false;
+    setState((prev) => ({ ...prev, isPaused: false, pausedStatus: null }));
+    sync();
+  };
+
+  // 一定間隔で同期する
+  useEffect(() => {
+    if (!isEnabled || !syncSettings) return;
+
+    const interval = setInterval(autoSync, syncSettings.intervalMinutes * 60 * 1000);
+    return () => {
+      clearInterval(interval);
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    };
+  }, [isEnabled, syncSettings?.intervalMinutes, syncSettings?.idleSeconds]);
+
+  return { ...state, isEnabled, sync, notifyActivity, resume };
+}
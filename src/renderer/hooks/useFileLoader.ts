@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 
 // 大きなファイルを効率的に読み込むためのカスタムフック
 export function useFileLoader(filePath: string | null) {
@@ -7,9 +7,18 @@ export function useFileLoader(filePath: string | null) {
   const [error, setError] = useState<Error | null>(null);
   const [fileInfo, setFileInfo] = useState<{ size: number; isLargeFile: boolean } | null>(null);
   const [loadProgress, setLoadProgress] = useState<number>(0);
+  const [reloadKey, setReloadKey] = useState<number>(0);
+  // 移動や名前の変更でパスだけが変わったファイル（読み込み直さずに内容を引き継ぐ）
+  const movedPathRef = useRef<string | null>(null);
 
   // ファイルが変更されたときに実行
   useEffect(() => {
+    if (filePath && filePath === movedPathRef.current) {
+      movedPathRef.current = null;
+      return;
+    }
+    movedPathRef.current = null;
+
     if (!filePath) {
       setContent('');
       setFileInfo(null);
@@ -46,7 +55,12 @@ export function useFileLoader(filePath: string | null) {
     };
 
     loadFile();
-  }, [filePath]);
+  }, [filePath, reloadKey]);
+
+  // 同じファイルを再読み込みする（外部で内容が更新された場合など）
+  const reload = () => {
+    setReloadKey((prev) => prev + 1);
+  };
 
   // 大きなファイルを段階的に読み込む関数
   const loadLargeFile = async (path: string, fileSize: number) => {
@@ -92,5 +106,10 @@ export function useFileLoader(filePath: string | null) {
     }
   };
 
-  return { content, isLoading, error, fileInfo, loadProgress };
+  // 読み込んだファイルが移動したことを記録する（次に指定されたパスが同じ場合は読み込まない）
+  const markMoved = (newPath: string) => {
+    movedPathRef.current = newPath;
+  };
+
+  return { content, isLoading, error, fileInfo, loadProgress, reload, markMoved };
 }
@@ -4,10 +4,49 @@ export type AppSettings = {
   };
   git: {
     remoteUrl: string;
-    token: string;
+    // アクセストークンが設定されているかどうか（トークン自体は暗号化して別に保存する）
+    hasToken: boolean;
     author: {
       name: string;
       email: string;
     };
+    // origin以外のリモートのユーザー名（リモート名をキーとする、トークンは暗号化して別に保存する）
+    remoteCredentials?: Record<string, { username: string }>;
   };
+  github: {
+    // GitHub APIのURL（GitHub Enterpriseなどを使う場合に変更する）
+    apiBaseUrl: string;
+  };
+  sync: {
+    // 自動同期を有効にするかどうか
+    autoSync: boolean;
+    // 自動同期の間隔（分）
+    intervalMinutes: number;
+    // 最後の保存からこの秒数だけ操作がなければ同期する
+    idleSeconds: number;
+  };
+  commit: {
+    // コミットメッセージのテンプレート（{summary}、{date}、{branch}、{files}、{headings}を置き換える）
+    template: string;
+    // ステージした変更からコミットメッセージを自動で入力するかどうか
+    autoFill: boolean;
+  };
+};
+
+// 自動同期の設定の初期値（設定が保存されていない場合に使用）
+export const DEFAULT_SYNC_SETTINGS: AppSettings['sync'] = {
+  autoSync: false,
+  intervalMinutes: 10,
+  idleSeconds: 30,
+};
+
+// GitHub連携の設定の初期値
+export const DEFAULT_GITHUB_SETTINGS: AppSettings['github'] = {
+  apiBaseUrl: 'https://api.github.com',
+};
+
+// コミットメッセージの設定の初期値
+export const DEFAULT_COMMIT_SETTINGS: AppSettings['commit'] = {
+  template: '{summary}\n\n{headings}',
+  autoFill: false,
 };
@@ -0,0 +1,12 @@
+// レンダラーから指定されたパスにアクセスできない理由
+export const FileAccessErrorCode = {
+  NO_ROOT_DIRECTORY: 'no-root-directory', // ルートディレクトリが設定されていない
+  INVALID_PATH: 'invalid-path', // 文字列でない、絶対パスでないなど不正なパス
+  OUTSIDE_ROOT: 'outside-root', // ルートディレクトリの外（シンボリックリンクの参照先を含む）
+  GIT_DIRECTORY: 'git-directory', // .gitディレクトリの配下
+  TRASH_DIRECTORY: 'trash-directory', // ゴミ箱のディレクトリの配下
+  ROOT_DIRECTORY: 'root-directory', // ルートディレクトリ自体の変更や削除
+} as const;
+
+export type FileAccessErrorCodeType =
+  (typeof FileAccessErrorCode)[keyof typeof FileAccessErrorCode];
@@ -0,0 +1,15 @@
+import { CommitSummary } from './gitLog';
+
+export type BlameLine = {
+  content: string;
+  // この行を最後に変更したコミット
+  oid: string;
+};
+
+// ファイルの各行を最後に変更したコミット
+export type BlameResult = {
+  // HEADにあるファイルの行（ファイルがコミットされていない場合は空）
+  lines: BlameLine[];
+  // linesから参照されるコミット（キーはコミットのオブジェクトID）
+  commits: Record<string, CommitSummary>;
+};
@@ -0,0 +1,19 @@
+import { Filename } from './gitStatus';
+
+export type BranchList = {
+  // 現在のブランチ（detached HEADの場合はnull）
+  current: string | null;
+  branches: string[];
+};
+
+// ブランチ切り替えの結果
+export const CheckoutStatus = {
+  CHECKED_OUT: 'checked-out', // 切り替え完了
+  UNCOMMITTED_CHANGES: 'uncommitted-changes', // 未コミットの変更があるため切り替えを中止
+} as const;
+
+export type CheckoutResult = {
+  status: (typeof CheckoutStatus)[keyof typeof CheckoutStatus];
+  // 切り替えによって内容が変わったファイル（リポジトリからの相対パス）
+  changedFiles: Filename[];
+};
@@ -0,0 +1,19 @@
+// クローンの結果
+export const CloneStatus = {
+  CLONED: 'cloned', // リモートの内容をクローン
+  INITIALIZED: 'initialized', // リモートが空のため新しいリポジトリを作成
+} as const;
+
+export type CloneResult = {
+  status: (typeof CloneStatus)[keyof typeof CloneStatus];
+  // クローン先のディレクトリ
+  path: string;
+};
+
+// クローンの進捗
+export type CloneProgress = {
+  phase: string;
+  loaded: number;
+  // 全体の量が不明な場合はnull
+  total: number | null;
+};
@@ -0,0 +1,9 @@
+import { CommitSummary } from './gitLog';
+
+// 最後のコミットの情報（修正・取り消しができるかどうかの判定に使う）
+export type LastCommitInfo = {
+  // コミットがまだない場合はnull
+  commit: CommitSummary | null;
+  // リモートにプッシュ済みかどうか（プッシュ済みのコミットは書き換えられない）
+  isPushed: boolean;
+};
@@ -0,0 +1,35 @@
+import { Filename } from './gitStatus';
+
+export type MergeState = {
+  // マージが進行中かどうか（MERGE_HEADが存在する）
+  inProgress: boolean;
+  // マージ対象のコミット
+  mergeHead: string | null;
+  // マージコミットのメッセージ
+  message: string;
+  // コンフリクトが解決されていないファイル（リポジトリからの相対パス）
+  conflictedFiles: Filename[];
+};
+
+// コンフリクトしているファイルを構成する領域
+export const ConflictRegionType = {
+  RESOLVED: 'resolved', // 自動でマージできた領域
+  CONFLICT: 'conflict', // コンフリクトしている領域
+} as const;
+
+export type ConflictRegion =
+  | {
+      type: typeof ConflictRegionType.RESOLVED;
+      lines: string[];
+    }
+  | {
+      type: typeof ConflictRegionType.CONFLICT;
+      ours: string[];
+      base: string[];
+      theirs: string[];
+    };
+
+export type FileConflict = {
+  filepath: Filename;
+  regions: ConflictRegion[];
+};
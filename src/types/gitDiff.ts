@@ -0,0 +1,51 @@
+import { Filename } from './gitStatus';
+
+// 比較対象
+export const DiffTarget = {
+  UNSTAGED: 'unstaged', // インデックスと作業ディレクトリの比較
+  STAGED: 'staged', // HEADとインデックスの比較
+} as const;
+
+export type DiffTargetType = (typeof DiffTarget)[keyof typeof DiffTarget];
+
+// 差分の行の種類
+export const DiffLineType = {
+  CONTEXT: 'context', // 変更なし
+  ADDED: 'added', // 追加
+  REMOVED: 'removed', // 削除
+} as const;
+
+export type DiffLine = {
+  type: (typeof DiffLineType)[keyof typeof DiffLineType];
+  content: string;
+  // 変更前の行番号（追加行の場合はnull）
+  oldLineNumber: number | null;
+  // 変更後の行番号（削除行の場合はnull）
+  newLineNumber: number | null;
+};
+
+export type DiffHunk = {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+};
+
+export type FileDiff = {
+  filepath: Filename;
+  target: DiffTargetType;
+  // 変更前・変更後の内容（存在しない場合はnull）
+  oldContent: string | null;
+  newContent: string | null;
+  hunks: DiffHunk[];
+  isBinary: boolean;
+};
+
+// 部分的にステージ・ステージ解除する行
+export type DiffLineSelection = {
+  // 選択された削除行の変更前の行番号
+  removed: number[];
+  // 選択された追加行の変更後の行番号
+  added: number[];
+};
@@ -0,0 +1,40 @@
+export type CommitSummary = {
+  oid: string;
+  // 親コミット（最初のコミットの場合は空）
+  parents: string[];
+  message: string;
+  author: {
+    name: string;
+    email: string;
+  };
+  // コミット日時（UNIXエポックからのミリ秒）
+  timestamp: number;
+};
+
+export type LogOptions = {
+  // 指定した場合はこのファイルを変更したコミットのみを取得（絶対パス）
+  filePath?: string;
+  // 先頭から読み飛ばすコミット数
+  skip?: number;
+  // 取得するコミット数
+  limit?: number;
+};
+
+export type LogPage = {
+  commits: CommitSummary[];
+  // さらに古いコミットがあるかどうか
+  hasMore: boolean;
+};
+
+// コミットでのファイルの変更の種類
+export const CommitChangeType = {
+  ADDED: 'added',
+  MODIFIED: 'modified',
+  DELETED: 'deleted',
+} as const;
+
+export type CommitChange = {
+  // リポジトリからの相対パス
+  filepath: string;
+  type: (typeof CommitChangeType)[keyof typeof CommitChangeType];
+};
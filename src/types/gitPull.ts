@@ -0,0 +1,20 @@
+import { Filename } from './gitStatus';
+
+// プルの結果
+export const PullStatus = {
+  FAST_FORWARDED: 'fast-forwarded', // 早送りで更新
+  MERGED: 'merged', // マージコミットを作成して更新
+  UP_TO_DATE: 'up-to-date', // すでに最新
+  CONFLICTED: 'conflicted', // コンフリクトが発生
+  UNCOMMITTED_CHANGES: 'uncommitted-changes', // 未コミットの変更が上書きされるためプルを中止
+  NO_REMOTE_BRANCH: 'no-remote-branch', // リモートにまだブランチがないため何もしない
+} as const;
+
+export type PullResult = {
+  status: (typeof PullStatus)[keyof typeof PullStatus];
+  // プルによって変更されたファイル（リポジトリからの相対パス）
+  changedFiles: Filename[];
+  // コンフリクトが発生したファイル（リポジトリからの相対パス）
+  // プルを中止した場合は、未コミットの変更が上書きされるファイル
+  conflictedFiles: Filename[];
+};
@@ -0,0 +1,10 @@
+// プッシュの結果
+export const PushStatus = {
+  PUSHED: 'pushed', // プッシュが完了
+  REJECTED: 'rejected', // リモートに新しいコミットがあるため拒否された（先にプルが必要）
+} as const;
+
+export type PushResult = {
+  status: (typeof PushStatus)[keyof typeof PushStatus];
+  remote: string;
+};
@@ -0,0 +1,13 @@
+// リモートごとの認証情報
+export type RemoteCredentials = {
+  // 空の場合はトークンをユーザー名として送信する（GitHubの場合）
+  username: string;
+  token: string;
+};
+
+export type RemoteEntry = {
+  remote: string;
+  url: string;
+  // 認証情報が設定されているかどうか
+  hasCredentials: boolean;
+};
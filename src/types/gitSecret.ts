@@ -0,0 +1,41 @@
+import { Filename } from './gitStatus';
+
+// 秘密情報として検出する内容の種類
+export const SecretRule = {
+  PRIVATE_KEY: 'private-key', // 秘密鍵
+  AWS_ACCESS_KEY: 'aws-access-key', // AWSのアクセスキー
+  GITHUB_TOKEN: 'github-token', // GitHubのアクセストークン
+  SLACK_TOKEN: 'slack-token', // Slackのトークン
+  GOOGLE_API_KEY: 'google-api-key', // GoogleのAPIキー
+  API_SECRET_KEY: 'api-secret-key', // sk-で始まるAPIのシークレットキー
+  JWT: 'jwt', // JSON Web Token
+  PASSWORD: 'password', // パスワードやトークンの代入
+  HIGH_ENTROPY: 'high-entropy', // ランダムに見える長い文字列
+} as const;
+
+export type SecretRuleType = (typeof SecretRule)[keyof typeof SecretRule];
+
+// 検出した内容の表示名
+export const SECRET_RULE_LABELS: Record<SecretRuleType, string> = {
+  [SecretRule.PRIVATE_KEY]: '秘密鍵',
+  [SecretRule.AWS_ACCESS_KEY]: 'AWSのアクセスキー',
+  [SecretRule.GITHUB_TOKEN]: 'GitHubのトークン',
+  [SecretRule.SLACK_TOKEN]: 'Slackのトークン',
+  [SecretRule.GOOGLE_API_KEY]: 'GoogleのAPIキー',
+  [SecretRule.API_SECRET_KEY]: 'APIのシークレットキー',
+  [SecretRule.JWT]: 'JWT',
+  [SecretRule.PASSWORD]: 'パスワード',
+  [SecretRule.HIGH_ENTROPY]: 'ランダムな文字列',
+};
+
+export type SecretFinding = {
+  // 検出したファイル（リポジトリからの相対パス）
+  filepath: Filename;
+  // ステージ済みの内容での行番号（1始まり）
+  line: number;
+  rule: SecretRuleType;
+  // 検出した文字列の一部を伏せたもの（表示用）
+  preview: string;
+  // コミットごとに許可するときに使う識別子（行番号が変わっても同じ値になる）
+  fingerprint: string;
+};
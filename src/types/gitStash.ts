@@ -0,0 +1,6 @@
+// 退避（スタッシュ）した変更
+export type StashEntry = {
+  // stash@{index} の番号（新しいものほど小さい）
+  index: number;
+  message: string;
+};
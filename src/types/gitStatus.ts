@@ -6,6 +6,8 @@ export type GitFileStatus = {
 export type GitStatus = {
   staged: GitFileStatus[];
   unstaged: GitFileStatus[];
+  // マージ中にコンフリクトが解決されていないファイル
+  conflicted: GitFileStatus[];
 };
 
 export type Filename = string;
@@ -39,3 +41,10 @@ export type StatusRow = [
 ];
 
 export type StatusMatrix = StatusRow[];
+
+// メインプロセスから通知されるリポジトリの状態の変化
+export type StatusChange = {
+  statusMatrix: StatusMatrix;
+  // HEADやインデックスが変わったかどうか（マージの状態や最後のコミットなども取得し直す必要がある）
+  repositoryChanged: boolean;
+};
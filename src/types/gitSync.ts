@@ -0,0 +1,21 @@
+import { Filename } from './gitStatus';
+import { SecretFinding } from './gitSecret';
+
+// 同期の結果
+export const SyncStatus = {
+  SYNCED: 'synced', // コミット・プル・プッシュが完了
+  CONFLICTED: 'conflicted', // コンフリクトが発生したため中断
+  SECRETS_DETECTED: 'secrets-detected', // 秘密情報の可能性がある内容が含まれるためコミットせずに中断
+} as const;
+
+export type SyncResult = {
+  status: (typeof SyncStatus)[keyof typeof SyncStatus];
+  // 作成したコミット（コミットする変更がなかった場合はnull）
+  commitOid: string | null;
+  // プルによって変更されたファイル（リポジトリからの相対パス）
+  changedFiles: Filename[];
+  // コンフリクトしているファイル（リポジトリからの相対パス）
+  conflictedFiles: Filename[];
+  // 検出した秘密情報（SECRETS_DETECTEDの場合のみ）
+  secretFindings: SecretFinding[];
+};
@@ -0,0 +1,20 @@
+// タグ（名前付きのスナップショット）
+export type TagEntry = {
+  name: string;
+  // タグが指しているコミット
+  commitOid: string;
+  // 注釈付きタグかどうか
+  isAnnotated: boolean;
+  // 注釈付きタグのメッセージ（軽量タグの場合はnull）
+  message: string | null;
+  // 注釈付きタグの場合は作成日時、軽量タグの場合はコミットの日時（ミリ秒）
+  timestamp: number;
+};
+
+// スナップショット内のファイル・ディレクトリ
+export type SnapshotEntry = {
+  name: string;
+  // リポジトリからの相対パス
+  path: string;
+  isDirectory: boolean;
+};
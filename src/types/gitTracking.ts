@@ -0,0 +1,10 @@
+// 現在のブランチと上流ブランチ（originの同名ブランチ）の比較結果
+export type TrackingStatus = {
+  branch: string;
+  // 上流ブランチ（リモートにブランチがない場合はnull）
+  upstream: string | null;
+  // 上流ブランチにないローカルのコミット数（上流ブランチがない場合は0）
+  ahead: number;
+  // ローカルにない上流ブランチのコミット数（上流ブランチがない場合は0）
+  behind: number;
+};
@@ -0,0 +1,31 @@
+// GitHubに作成したリポジトリ
+export type GitHubRepository = {
+  fullName: string;
+  htmlUrl: string;
+  cloneUrl: string;
+};
+
+// プルリクエストの状態
+export const PullRequestState = {
+  OPEN: 'open',
+  CLOSED: 'closed',
+  MERGED: 'merged',
+} as const;
+
+export type PullRequestInfo = {
+  number: number;
+  title: string;
+  state: (typeof PullRequestState)[keyof typeof PullRequestState];
+  draft: boolean;
+  htmlUrl: string;
+  // マージ先のブランチ
+  base: string;
+};
+
+// 現在のブランチのプルリクエストの状態
+export type PullRequestStatus = {
+  // リポジトリのデフォルトブランチ（プルリクエストのマージ先）
+  defaultBranch: string;
+  // 現在のブランチから作成された最新のプルリクエスト（存在しない場合はnull）
+  pullRequest: PullRequestInfo | null;
+};
@@ -0,0 +1,11 @@
+// ゴミ箱に移動したファイルやフォルダ
+export type TrashItem = {
+  // ゴミ箱の中での識別子
+  id: string;
+  name: string;
+  // 削除する前の場所（ルートディレクトリからの相対パス）
+  originalPath: string;
+  isDirectory: boolean;
+  // 削除した日時（ISO 8601形式）
+  deletedAt: string;
+};